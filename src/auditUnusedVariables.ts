@@ -0,0 +1,210 @@
+/**
+ * Finds variables that are not used anywhere in a search scope
+ */
+
+import {
+  findNodesWithBoundVariables,
+  findStylesByVariable,
+  SearchCallbacks,
+} from "./findBoundVariables";
+import { getCachedVariable, loadVariables } from "./variableCache";
+
+export interface AliasOnlyVariable {
+  variable: Variable;
+  /**
+   * Names of the used variables that reach this one through an alias chain
+   */
+  aliasedBy: string[];
+  /**
+   * Number of layers that use this variable through an alias
+   */
+  usageCount: number;
+}
+
+export interface StyleOnlyVariable {
+  variable: Variable;
+  /**
+   * Names of the local styles that bind this variable, or a variable aliasing it
+   */
+  styleNames: string[];
+}
+
+export interface UnusedVariablesReport {
+  totalVariables: number;
+  unused: Variable[];
+  aliasOnly: AliasOnlyVariable[];
+  /**
+   * Variables no layer uses, but that local styles bind: deleting them would
+   * break those styles
+   */
+  styleOnly: StyleOnlyVariable[];
+  cancelled: boolean;
+}
+
+/**
+ * Scans the given roots once for every audited variable and sorts out the ones
+ * nobody binds directly
+ * @param variables - The variables to audit, e.g. every variable of some collections
+ * @param rootNodes - The layers whose subtrees are searched
+ * @param callbacks - Optional callbacks for progress and cancellation
+ * @returns Variables with no usage at all, variables used only through aliases,
+ * and variables only local styles use
+ */
+export async function auditUnusedVariables(
+  variables: Variable[],
+  rootNodes: readonly SceneNode[],
+  callbacks?: SearchCallbacks
+): Promise<UnusedVariablesReport> {
+  console.log(`🧹 Auditing ${variables.length} variables`);
+
+  // Alias chains of the audited variables are followed from the variable cache
+  await loadVariables(variables.map((variable) => variable.id));
+
+  // Every layer is checked, including hidden and locked ones: a variable used
+  // only there is still in use and must not be deleted. Bindings to variables
+  // outside the audit that alias an audited one come back with an alias path.
+  const boundNodesByVariable = await findNodesWithBoundVariables(
+    variables,
+    "layer",
+    {
+      rootNodes,
+      callbacks,
+      scanOptions: {
+        includeAliases: true,
+        includeHidden: true,
+        includeLocked: true,
+      },
+    }
+  );
+
+  // Variables bound directly (or through a style) on at least one layer
+  const directlyUsed = new Set<string>();
+  // Alias usages per audited variable
+  const aliasUsage = new Map<string, { aliasedBy: Set<string>; count: number }>();
+
+  const addAliasUsage = (variableId: string, aliasName: string, count: number) => {
+    let usage = aliasUsage.get(variableId);
+    if (!usage) {
+      usage = { aliasedBy: new Set<string>(), count: 0 };
+      aliasUsage.set(variableId, usage);
+    }
+    usage.aliasedBy.add(aliasName);
+    usage.count += count;
+  };
+
+  boundNodesByVariable.forEach((boundNodes, variableId) => {
+    boundNodes.forEach((boundNode) => {
+      // Layers the variable was detached from no longer use it
+      if (boundNode.formerlyBound) {
+        return;
+      }
+      if (boundNode.aliasPath) {
+        // Alias paths start with the name of the variable bound on the layer
+        addAliasUsage(variableId, boundNode.aliasPath.split(" → ")[0], 1);
+      } else {
+        directlyUsed.add(variableId);
+      }
+    });
+  });
+
+  // An audited variable that is used makes every audited variable it aliases used
+  // as well; the scan stops at the first audited variable of a chain
+  for (const variable of variables) {
+    const usageCount = (boundNodesByVariable.get(variable.id) || []).filter(
+      (boundNode) => !boundNode.formerlyBound
+    ).length;
+    if (usageCount === 0) {
+      continue;
+    }
+    getAliasTargets(variable).forEach((targetId) => {
+      if (targetId !== variable.id && boundNodesByVariable.has(targetId)) {
+        addAliasUsage(targetId, variable.name, usageCount);
+      }
+    });
+  }
+
+  // Styles keep the variables they bind in use even when no layer applies them,
+  // along with the variables those aliases point to
+  const styleUsage = new Map<string, Set<string>>();
+  (await findStylesByVariable()).forEach((styles, variableId) => {
+    const variable = getCachedVariable(variableId);
+    [variableId, ...(variable ? getAliasTargets(variable) : [])].forEach(
+      (targetId) => {
+        const styleNames = styleUsage.get(targetId) || new Set<string>();
+        styles.forEach((style) => styleNames.add(style.name));
+        styleUsage.set(targetId, styleNames);
+      }
+    );
+  });
+
+  const report: UnusedVariablesReport = {
+    totalVariables: variables.length,
+    unused: [],
+    aliasOnly: [],
+    styleOnly: [],
+    cancelled: callbacks?.shouldCancel?.() === true,
+  };
+
+  for (const variable of variables) {
+    if (directlyUsed.has(variable.id)) {
+      continue;
+    }
+
+    const usage = aliasUsage.get(variable.id);
+    const styleNames = styleUsage.get(variable.id);
+    if (!usage && styleNames) {
+      report.styleOnly.push({ variable, styleNames: Array.from(styleNames) });
+      continue;
+    }
+    if (!usage) {
+      report.unused.push(variable);
+      continue;
+    }
+
+    report.aliasOnly.push({
+      variable,
+      aliasedBy: Array.from(usage.aliasedBy),
+      usageCount: usage.count,
+    });
+  }
+
+  console.log(
+    `🧹 Audit found ${report.unused.length} unused, ${report.aliasOnly.length} alias-only and ${report.styleOnly.length} style-only variables`
+  );
+
+  return report;
+}
+
+/**
+ * Returns the IDs of every variable reached through a variable's alias chains, in any mode
+ */
+function getAliasTargets(
+  variable: Variable,
+  visited: Set<string> = new Set([variable.id]),
+  depth: number = 0
+): string[] {
+  if (depth > 10) {
+    return [];
+  }
+
+  const targets: string[] = [];
+  for (const value of Object.values(variable.valuesByMode)) {
+    if (
+      typeof value !== "object" ||
+      !("type" in value) ||
+      value.type !== "VARIABLE_ALIAS" ||
+      visited.has(value.id)
+    ) {
+      continue;
+    }
+    visited.add(value.id);
+    targets.push(value.id);
+
+    const referencedVariable = getCachedVariable(value.id);
+    if (referencedVariable) {
+      targets.push(...getAliasTargets(referencedVariable, visited, depth + 1));
+    }
+  }
+
+  return targets;
+}
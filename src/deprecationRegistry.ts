@@ -0,0 +1,112 @@
+/**
+ * Keeps track of deprecated variables and the variables that replace them
+ */
+
+import { DeprecationInfo } from "./types";
+import { getLocalVariables, getVariable } from "./variableCache";
+
+/**
+ * Plugin data key on the document holding the deprecation registry
+ */
+const deprecationRegistryKey = "deprecationRegistry";
+
+/**
+ * Marker in a variable description that deprecates it without a registry entry
+ */
+const deprecatedMarker = /\[deprecated\]/i;
+
+/**
+ * A registry entry, keyed by the ID of the deprecated variable
+ */
+export interface DeprecationEntry {
+  replacementVariableId: string | null;
+  note: string;
+}
+
+/**
+ * Reads the deprecation registry stored on this file
+ */
+export function getDeprecationRegistry(): Record<string, DeprecationEntry> {
+  const data = figma.root.getPluginData(deprecationRegistryKey);
+  if (!data) {
+    return {};
+  }
+  try {
+    const registry = JSON.parse(data);
+    return registry && typeof registry === "object" && !Array.isArray(registry)
+      ? registry
+      : {};
+  } catch (error) {
+    console.warn("Ignoring invalid deprecation registry:", error);
+    return {};
+  }
+}
+
+/**
+ * Adds, updates or (with a null entry) removes the registry entry of a variable
+ */
+export function setDeprecationEntry(
+  variableId: string,
+  entry: DeprecationEntry | null
+) {
+  const registry = getDeprecationRegistry();
+  if (entry) {
+    registry[variableId] = entry;
+  } else {
+    delete registry[variableId];
+  }
+  figma.root.setPluginData(deprecationRegistryKey, JSON.stringify(registry));
+}
+
+/**
+ * Tells whether a variable is deprecated, through the registry or its description,
+ * and what replaces it
+ */
+export async function getDeprecationInfo(
+  variable: Variable,
+  registry: Record<string, DeprecationEntry>
+): Promise<DeprecationInfo | null> {
+  const entry = registry[variable.id];
+  if (entry) {
+    const replacement = entry.replacementVariableId
+      ? await getVariable(entry.replacementVariableId)
+      : null;
+    return {
+      replacementVariableId: replacement ? replacement.id : null,
+      replacementVariableName: replacement ? replacement.name : null,
+      note: entry.note,
+      fromDescription: false,
+    };
+  }
+
+  if (deprecatedMarker.test(variable.description || "")) {
+    return {
+      replacementVariableId: null,
+      replacementVariableName: null,
+      note: variable.description.replace(deprecatedMarker, "").trim(),
+      fromDescription: true,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Lists every local variable that is deprecated, with its deprecation details
+ */
+export async function findDeprecatedVariables(): Promise<
+  Array<{ variable: Variable; deprecation: DeprecationInfo }>
+> {
+  const registry = getDeprecationRegistry();
+  const deprecated: Array<{ variable: Variable; deprecation: DeprecationInfo }> =
+    [];
+
+  for (const variable of await getLocalVariables()) {
+    const deprecation = await getDeprecationInfo(variable, registry);
+    if (deprecation) {
+      deprecated.push({ variable, deprecation });
+    }
+  }
+
+  return deprecated;
+}
@@ -0,0 +1,330 @@
+/**
+ * Unbinds a variable from the layers found for it, keeping what each layer displays
+ */
+
+import { bindPropertyPath } from "./replaceVariable";
+import { resolveNodeModeInfo } from "./resolveVariableValue";
+import { ReplacementFailure, VariableModeValue } from "./types";
+import { getCachedCollection } from "./variableCache";
+
+/**
+ * Plugin data key on a layer listing the variables detached from it
+ */
+export const detachedVariablesKey = "detachedVariables";
+
+/**
+ * Plugin data key on the document, set once anything was detached, so scans
+ * only read layer plugin data in files where it can exist
+ */
+export const hasDetachedVariablesKey = "hasDetachedVariables";
+
+/**
+ * Text fields bound on a whole text layer, written as a range covering all of it
+ */
+const typographyFields = new Set<string>([
+  "fontFamily",
+  "fontSize",
+  "fontStyle",
+  "fontWeight",
+  "letterSpacing",
+  "lineHeight",
+  "paragraphSpacing",
+  "paragraphIndent",
+]);
+
+/**
+ * A variable that used to be bound on a layer, as stored in its plugin data
+ */
+export interface DetachedBinding {
+  variableId: string;
+  variableKey: string;
+  variableName: string;
+  property: string;
+}
+
+/**
+ * Reads the bindings detached from a layer
+ */
+export function getDetachedBindings(node: BaseNode): DetachedBinding[] {
+  const data = node.getPluginData(detachedVariablesKey);
+  if (!data) {
+    return [];
+  }
+  try {
+    const bindings = JSON.parse(data);
+    return Array.isArray(bindings) ? bindings : [];
+  } catch (error) {
+    console.warn(`Ignoring invalid detached bindings on ${node.id}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Replaces each binding with the raw value the layer resolves to in its effective
+ * mode, and records the former binding on the layer. Runs synchronously so the
+ * whole detach lands in a single undo step; load the variable in the variable
+ * cache first.
+ * @returns The number of detached bindings and the ones that could not be detached
+ */
+export function detachBindings(
+  bindings: Array<{ node: SceneNode; property: string }>,
+  variable: Variable
+): { updatedCount: number; failures: ReplacementFailure[] } {
+  let updatedCount = 0;
+  const failures: ReplacementFailure[] = [];
+
+  for (const { node, property } of bindings) {
+    try {
+      const resolvedMode = resolveNodeModeInfo(
+        node,
+        variable,
+        getCachedCollection
+      );
+      if (!resolvedMode || resolvedMode.value.type === "UNRESOLVED") {
+        throw new Error("Could not resolve the value in the layer's mode");
+      }
+
+      setRawPropertyPath(node, property, resolvedMode.value);
+
+      const detachedBindings = getDetachedBindings(node).filter(
+        (binding) =>
+          binding.variableId !== variable.id || binding.property !== property
+      );
+      detachedBindings.push({
+        variableId: variable.id,
+        variableKey: variable.key,
+        variableName: variable.name,
+        property,
+      });
+      node.setPluginData(detachedVariablesKey, JSON.stringify(detachedBindings));
+      updatedCount++;
+    } catch (error) {
+      failures.push({
+        nodeId: node.id,
+        nodeName: node.name,
+        property,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (updatedCount > 0) {
+    figma.root.setPluginData(hasDetachedVariablesKey, "true");
+  }
+
+  return { updatedCount, failures };
+}
+
+/**
+ * Unbinds the field at a property path and writes the given raw value in its place
+ */
+function setRawPropertyPath(
+  node: SceneNode,
+  propertyPath: string,
+  value: VariableModeValue
+) {
+  // Component properties take the raw value in place of the alias
+  if (propertyPath.startsWith("componentProperties.")) {
+    if (node.type !== "INSTANCE") {
+      throw new Error("Component properties only exist on instances");
+    }
+    if (value.type !== "STRING" && value.type !== "BOOLEAN") {
+      throw new Error(`Component properties cannot hold a ${value.type} value`);
+    }
+    node.setProperties({
+      [propertyPath.slice("componentProperties.".length)]: value.value,
+    });
+    return;
+  }
+
+  bindPropertyPath(node, propertyPath, null);
+
+  const rangeMatch = propertyPath.match(/^textRanges\[(\d+):(\d+)\]\.(.+)$/);
+  if (rangeMatch && node.type === "TEXT") {
+    setRawTextRangeValue(
+      node,
+      Number(rangeMatch[1]),
+      Number(rangeMatch[2]),
+      rangeMatch[3],
+      value
+    );
+    return;
+  }
+
+  const paintMatch = propertyPath.match(
+    /^(fills|strokes)\[(\d+)\](?:\.gradientStops\[(\d+)\])?\.color$/
+  );
+  if (paintMatch && value.type === "COLOR") {
+    const paintProperty = paintMatch[1] as "fills" | "strokes";
+    const paints = (node as unknown as Record<string, unknown>)[paintProperty];
+    if (Array.isArray(paints)) {
+      const stopIndex =
+        paintMatch[3] !== undefined ? Number(paintMatch[3]) : undefined;
+      (node as GeometryMixin)[paintProperty] = setPaintColor(
+        paints,
+        Number(paintMatch[2]),
+        stopIndex,
+        value.value
+      );
+    }
+    return;
+  }
+
+  const effectMatch = propertyPath.match(/^effects\[(\d+)\]\.(\w+)$/);
+  if (effectMatch && "effects" in node) {
+    const index = Number(effectMatch[1]);
+    const field = effectMatch[2];
+    const effects = [...node.effects];
+    const effect = effects[index];
+    if (!effect) {
+      return;
+    }
+    if (field === "color" && value.type === "COLOR" && "color" in effect) {
+      effects[index] = { ...effect, color: value.value };
+    } else if (value.type === "FLOAT") {
+      if ((field === "offsetX" || field === "offsetY") && "offset" in effect) {
+        effects[index] = {
+          ...effect,
+          offset: {
+            ...effect.offset,
+            [field === "offsetX" ? "x" : "y"]: value.value,
+          },
+        };
+      } else if (field in effect) {
+        effects[index] = { ...effect, [field]: value.value } as Effect;
+      }
+    }
+    node.effects = effects;
+    return;
+  }
+
+  const gridMatch = propertyPath.match(/^layoutGrids\[(\d+)\]\.(\w+)$/);
+  if (gridMatch && "layoutGrids" in node) {
+    const index = Number(gridMatch[1]);
+    const layoutGrids = [...node.layoutGrids];
+    if (layoutGrids[index] && value.type === "FLOAT") {
+      layoutGrids[index] = {
+        ...layoutGrids[index],
+        [gridMatch[2]]: value.value,
+      } as LayoutGrid;
+      node.layoutGrids = layoutGrids;
+    }
+    return;
+  }
+
+  // Plain node fields: size, layout, radii, opacity, visibility, typography, ...
+  if (node.type === "TEXT" && typographyFields.has(propertyPath)) {
+    setRawTextRangeValue(node, 0, node.characters.length, propertyPath, value);
+    return;
+  }
+
+  // Width and height are read-only and change through resize
+  if (
+    (propertyPath === "width" || propertyPath === "height") &&
+    value.type === "FLOAT"
+  ) {
+    if ("resize" in node) {
+      node.resize(
+        propertyPath === "width" ? value.value : node.width,
+        propertyPath === "height" ? value.value : node.height
+      );
+    }
+    return;
+  }
+
+  if (
+    value.type !== "COLOR" &&
+    value.type !== "UNRESOLVED" &&
+    propertyPath in node
+  ) {
+    (node as unknown as Record<string, unknown>)[propertyPath] = value.value;
+  }
+}
+
+/**
+ * Writes a raw typography value on a character range. Font family, style and
+ * weight keep the font the range already renders with once unbound.
+ */
+function setRawTextRangeValue(
+  node: TextNode,
+  start: number,
+  end: number,
+  field: string,
+  value: VariableModeValue
+) {
+  if (field.startsWith("fills[")) {
+    const fillMatch = field.match(/^fills\[(\d+)\]\.color$/);
+    if (!fillMatch || value.type !== "COLOR") {
+      return;
+    }
+    for (const segment of node.getStyledTextSegments(["fills"], start, end)) {
+      node.setRangeFills(
+        segment.start,
+        segment.end,
+        setPaintColor(segment.fills, Number(fillMatch[1]), undefined, value.value)
+      );
+    }
+    return;
+  }
+
+  if (value.type !== "FLOAT" || end <= start) {
+    return;
+  }
+
+  switch (field) {
+    case "fontSize":
+      node.setRangeFontSize(start, end, value.value);
+      break;
+    case "letterSpacing":
+      node.setRangeLetterSpacing(start, end, { value: value.value, unit: "PIXELS" });
+      break;
+    case "lineHeight":
+      node.setRangeLineHeight(start, end, { value: value.value, unit: "PIXELS" });
+      break;
+    case "paragraphSpacing":
+      node.setRangeParagraphSpacing(start, end, value.value);
+      break;
+    case "paragraphIndent":
+      node.setRangeParagraphIndent(start, end, value.value);
+      break;
+  }
+}
+
+/**
+ * Returns a copy of a paint list with one solid color or gradient stop set to a raw color
+ */
+function setPaintColor(
+  paints: ReadonlyArray<Paint>,
+  paintIndex: number,
+  stopIndex: number | undefined,
+  color: RGBA
+): Paint[] {
+  const newPaints = [...paints];
+  const paint = newPaints[paintIndex];
+  if (!paint) {
+    return newPaints;
+  }
+
+  if (stopIndex === undefined) {
+    if (paint.type === "SOLID") {
+      // Solid paint colors have no alpha: scale the paint's own opacity by
+      // the variable's, so a semi-transparent fill keeps its transparency
+      newPaints[paintIndex] = {
+        ...paint,
+        color: { r: color.r, g: color.g, b: color.b },
+        opacity: (paint.opacity ?? 1) * color.a,
+      };
+    }
+    return newPaints;
+  }
+
+  if ("gradientStops" in paint && paint.gradientStops[stopIndex]) {
+    newPaints[paintIndex] = {
+      ...paint,
+      gradientStops: paint.gradientStops.map((stop, index) =>
+        index === stopIndex ? { ...stop, color } : stop
+      ),
+    };
+  }
+  return newPaints;
+}
@@ -1,4 +1,14 @@
-import { BoundNodeInfo } from "./findBoundVariables";
+import { UnusedVariablesReport } from "./auditUnusedVariables";
+import { BoundNodeInfo, StyleReference } from "./findBoundVariables";
+import { formatVariableModeValue } from "./formatValue";
+import { resolveVariableModeValue } from "./resolveVariableValue";
+import {
+  DeprecationInfo,
+  ResolvedModeInfo,
+  ResultGranularity,
+  VariableModeValue,
+} from "./types";
+import { getCachedCollection } from "./variableCache";
 
 interface VariableResult {
   variable: Variable;
@@ -8,9 +18,39 @@ interface VariableResult {
     nodesByType: Record<string, number>;
     propertyUsage: Record<string, number>;
   };
-  instancesOnly: boolean;
+  granularity: ResultGranularity;
+  /**
+   * Layers whose raw value equals the variable's value without being bound,
+   * listed apart from the real bindings
+   */
+  unboundMatches: BoundNodeInfo[];
+  /**
+   * Layers the variable was detached from, listed apart from the real bindings
+   */
+  formerlyBoundNodes: BoundNodeInfo[];
+  /**
+   * Which part of the document was searched, e.g. the covered page names
+   */
+  scopeLabel: string;
+  /**
+   * Set when the variable is deprecated, with its suggested replacement
+   */
+  deprecation: DeprecationInfo | null;
 }
 
+/**
+ * Plural labels for result rows and the occurrences they stand for, per granularity
+ */
+const granularityLabels: Record<
+  ResultGranularity,
+  { rows: string; occurrences: string }
+> = {
+  layer: { rows: "layers", occurrences: "layers" },
+  instance: { rows: "instances", occurrences: "bound layers" },
+  mainComponent: { rows: "main components", occurrences: "instances" },
+  componentSet: { rows: "components", occurrences: "instances" },
+};
+
 /**
  * Creates a visual table-like representation of variable usage results
  * @param results Array of variable results to visualize
@@ -61,7 +101,9 @@ export function createResultTable(results: VariableResult[]): FrameNode {
       const headerFrame = createHeaderSection(
         result.variable,
         result.boundNodes.length,
-        result.instancesOnly
+        result.granularity,
+        result.scopeLabel,
+        result.deprecation
       );
       col1.appendChild(headerFrame);
       rowFrame.appendChild(col1);
@@ -97,10 +139,35 @@ export function createResultTable(results: VariableResult[]): FrameNode {
       col4.paddingLeft = 16;
       col4.paddingRight = 16;
       col4.fills = [];
-      if (result.boundNodes.length > 0) {
-        const nodesFrame = createNodesSection(result.boundNodes);
+      col4.itemSpacing = 16;
+      const directNodes = result.boundNodes.filter((nodeInfo) => !nodeInfo.viaStyle);
+      if (directNodes.length > 0) {
+        const nodesFrame = createNodesSection(directNodes, result.granularity);
         col4.appendChild(nodesFrame);
       }
+      groupNodesByStyle(result.boundNodes).forEach(({ style, boundNodes }) => {
+        col4.appendChild(
+          createStyleGroupSection(style, boundNodes, result.granularity)
+        );
+      });
+      if (result.unboundMatches.length > 0) {
+        col4.appendChild(
+          createExtraMatchesSection(
+            `Unbound matches (${result.unboundMatches.length})`,
+            result.unboundMatches,
+            result.granularity
+          )
+        );
+      }
+      if (result.formerlyBoundNodes.length > 0) {
+        col4.appendChild(
+          createExtraMatchesSection(
+            `Formerly bound to ${result.variable.name} (${result.formerlyBoundNodes.length})`,
+            result.formerlyBoundNodes,
+            result.granularity
+          )
+        );
+      }
       rowFrame.appendChild(col4);
       
       tableContainer.appendChild(rowFrame);
@@ -122,95 +189,224 @@ export function createResultTable(results: VariableResult[]): FrameNode {
   }
 }
 
+/**
+ * Flags a result table whose results no longer match the document, with a
+ * notice above its rows. Does nothing if the table is already flagged.
+ * @param table The frame returned by createResultTable
+ */
+export function markResultTableOutOfDate(table: FrameNode) {
+  if (table.findChild((child) => child.name === "OutOfDateNotice")) {
+    return;
+  }
+
+  const notice = createTextSafely(
+    "⚠️ Out of date: the document changed after this search. Search again to refresh.",
+    12,
+    "Medium",
+    { r: 0.85, g: 0.45, b: 0 }
+  );
+  notice.name = "OutOfDateNotice";
+  table.insertChild(0, notice);
+  table.strokes = [{ type: "SOLID", color: { r: 0.96, g: 0.65, b: 0.14 } }];
+}
+
+/**
+ * Creates a canvas report of the variables that are unused, or used only through aliases
+ * @param report The audit result
+ * @param scopeLabel Which part of the document was audited
+ * @returns The created frame containing both sections
+ */
+export function createUnusedVariablesTable(
+  report: UnusedVariablesReport,
+  scopeLabel: string
+): FrameNode {
+  console.log(
+    `🎨 Creating unused variables table for ${report.totalVariables} audited variables...`
+  );
+
+  try {
+    const tableContainer = figma.createFrame();
+    tableContainer.name = "Table_Unused_Variables";
+    tableContainer.layoutMode = "VERTICAL";
+    tableContainer.primaryAxisSizingMode = "AUTO";
+    tableContainer.counterAxisSizingMode = "AUTO";
+    tableContainer.paddingTop = 20;
+    tableContainer.paddingBottom = 20;
+    tableContainer.paddingLeft = 20;
+    tableContainer.paddingRight = 20;
+    tableContainer.itemSpacing = 19;
+    tableContainer.fills = [];
+    tableContainer.cornerRadius = 8;
+    tableContainer.strokes = [{ type: "SOLID", color: { r: 0.9, g: 0.9, b: 0.9 } }];
+    tableContainer.strokeWeight = 1;
+
+    figma.currentPage.appendChild(tableContainer);
+
+    const titleText = figma.createText();
+    titleText.characters = `Unused variables audit · ${report.totalVariables} variables in ${scopeLabel}${
+      report.cancelled ? " (cancelled, incomplete)" : ""
+    }`;
+    titleText.fontSize = 16;
+    titleText.fontName = getFontName("Bold");
+    titleText.fills = [{ type: "SOLID", color: { r: 0.1, g: 0.1, b: 0.1 } }];
+    tableContainer.appendChild(titleText);
+
+    tableContainer.appendChild(
+      createAuditSectionTitle(`Unused (${report.unused.length})`)
+    );
+    report.unused.forEach((variable, idx) => {
+      tableContainer.appendChild(createAuditRow(variable, idx + 1));
+    });
+
+    tableContainer.appendChild(
+      createAuditSectionTitle(
+        `Used only through aliases (${report.aliasOnly.length})`
+      )
+    );
+    report.aliasOnly.forEach(({ variable, aliasedBy, usageCount }, idx) => {
+      tableContainer.appendChild(
+        createAuditRow(
+          variable,
+          idx + 1,
+          `${usageCount} usage${usageCount === 1 ? "" : "s"} via ${aliasedBy.join(", ")}`
+        )
+      );
+    });
+
+    tableContainer.appendChild(
+      createAuditSectionTitle(
+        `Used only by styles (${report.styleOnly.length})`
+      )
+    );
+    report.styleOnly.forEach(({ variable, styleNames }, idx) => {
+      tableContainer.appendChild(
+        createAuditRow(variable, idx + 1, `Bound in ${styleNames.join(", ")}`)
+      );
+    });
+
+    console.log(
+      `✅ Successfully created unused variables table (${report.unused.length} unused, ${report.aliasOnly.length} alias-only, ${report.styleOnly.length} style-only)`
+    );
+
+    tableContainer.x = 100;
+    tableContainer.y = 100;
+
+    figma.viewport.scrollAndZoomIntoView([tableContainer]);
+    figma.currentPage.selection = [tableContainer];
+
+    return tableContainer;
+  } catch (error) {
+    console.error("❌ Failed to create unused variables table:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to create unused variables table: ${errorMessage}`);
+  }
+}
+
+/**
+ * Creates the title of one audit section
+ */
+function createAuditSectionTitle(title: string): TextNode {
+  const titleText = figma.createText();
+  titleText.characters = title;
+  titleText.fontSize = 14;
+  titleText.fontName = getFontName("Bold");
+  titleText.fills = [{ type: "SOLID", color: { r: 0.3, g: 0.3, b: 0.3 } }];
+  return titleText;
+}
 
+/**
+ * Creates one audit row: variable name and collection, values per mode, and an optional note
+ */
+function createAuditRow(variable: Variable, index: number, note?: string): FrameNode {
+  const rowFrame = figma.createFrame();
+  rowFrame.name = `Row_${index}`;
+  rowFrame.layoutMode = "HORIZONTAL";
+  rowFrame.primaryAxisSizingMode = "AUTO";
+  rowFrame.counterAxisSizingMode = "AUTO";
+  rowFrame.itemSpacing = 0;
+  rowFrame.fills = [{ type: "SOLID", color: { r: 1, g: 1, b: 1 } }];
+  rowFrame.cornerRadius = 8;
+
+  const col1 = figma.createFrame();
+  col1.name = "Col_Header";
+  col1.layoutMode = "VERTICAL";
+  col1.primaryAxisSizingMode = "AUTO";
+  col1.counterAxisSizingMode = "FIXED";
+  col1.resize(240, 100);
+  col1.paddingTop = 16;
+  col1.paddingBottom = 16;
+  col1.paddingLeft = 16;
+  col1.paddingRight = 16;
+  col1.itemSpacing = 4;
+  col1.fills = [];
+
+  const nameText = figma.createText();
+  nameText.characters = variable.name;
+  nameText.fontSize = 14;
+  nameText.fontName = getFontName("Bold");
+  nameText.fills = [{ type: "SOLID", color: { r: 0.1, g: 0.1, b: 0.1 } }];
+  col1.appendChild(nameText);
+
+  const collection = getCachedCollection(variable.variableCollectionId);
+  const collectionText = figma.createText();
+  collectionText.characters = collection?.name || "Unknown collection";
+  collectionText.fontSize = 11;
+  collectionText.fontName = getFontName("Regular");
+  collectionText.fills = [{ type: "SOLID", color: { r: 0.5, g: 0.5, b: 0.5 } }];
+  col1.appendChild(collectionText);
+
+  if (note) {
+    const noteText = figma.createText();
+    noteText.characters = note;
+    noteText.fontSize = 11;
+    noteText.fontName = getFontName("Medium");
+    noteText.fills = [{ type: "SOLID", color: { r: 0.3, g: 0.3, b: 0.3 } }];
+    noteText.resize(208, noteText.height);
+    noteText.textAutoResize = "HEIGHT";
+    col1.appendChild(noteText);
+  }
+
+  rowFrame.appendChild(col1);
+  rowFrame.appendChild(createColorSamplesSection(variable));
+
+  return rowFrame;
+}
 
 /**
- * Gets all color values from a variable (all modes)
+ * Gets the resolved values of a variable for all modes of its collection
  */
-function getVariableColors(variable: Variable): Array<{
+function getVariableModeValues(variable: Variable): Array<{
   modeId: string;
   modeName: string;
-  color: { r: number; g: number; b: number };
+  value: VariableModeValue;
 }> {
-  const colors: Array<{
+  const values: Array<{
     modeId: string;
     modeName: string;
-    color: { r: number; g: number; b: number };
+    value: VariableModeValue;
   }> = [];
-  
-  const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
-  
+
+  const collection = getCachedCollection(variable.variableCollectionId);
+
   if (collection) {
     for (const mode of collection.modes) {
-      const modeValue = variable.valuesByMode[mode.modeId];
-      
-      let resolvedColor: { r: number; g: number; b: number; a: number } | null = null;
-      
-      if (typeof modeValue === "object" && modeValue !== null) {
-        if ("r" in modeValue) {
-          resolvedColor = modeValue as { r: number; g: number; b: number; a: number };
-        } else if ("type" in modeValue && modeValue.type === "VARIABLE_ALIAS") {
-          resolvedColor = resolveVariableAlias(modeValue.id, mode.modeId);
-        }
-      }
-      
-      if (resolvedColor) {
-        colors.push({
-          modeId: mode.modeId,
-          modeName: mode.name,
-          color: { r: resolvedColor.r, g: resolvedColor.g, b: resolvedColor.b },
-        });
-      }
+      values.push({
+        modeId: mode.modeId,
+        modeName: mode.name,
+        value: resolveVariableModeValue(variable, mode.modeId),
+      });
     }
   }
-  
-  if (colors.length === 0) {
-    colors.push({
+
+  if (values.length === 0) {
+    values.push({
       modeId: "default",
       modeName: "Default",
-      color: { r: 0.5, g: 0.5, b: 0.5 },
+      value: { type: "UNRESOLVED", reason: "No value" },
     });
   }
-  
-  return colors;
-}
 
-function resolveVariableAlias(
-  variableId: string,
-  modeId: string,
-  depth: number = 0
-): { r: number; g: number; b: number; a: number } | null {
-  if (depth > 10) {
-    console.warn("Maximum alias resolution depth reached");
-    return null;
-  }
-  
-  try {
-    const aliasedVariable = figma.variables.getVariableById(variableId);
-    if (!aliasedVariable) return null;
-    
-    let aliasedValue = aliasedVariable.valuesByMode[modeId];
-    
-    if (!aliasedValue) {
-      const collection = figma.variables.getVariableCollectionById(aliasedVariable.variableCollectionId);
-      if (collection) {
-        const defaultModeId = collection.defaultModeId;
-        aliasedValue = aliasedVariable.valuesByMode[defaultModeId];
-      }
-    }
-    
-    if (aliasedValue && typeof aliasedValue === "object") {
-      if ("r" in aliasedValue) {
-        return aliasedValue as { r: number; g: number; b: number; a: number };
-      } else if ("type" in aliasedValue && aliasedValue.type === "VARIABLE_ALIAS") {
-        return resolveVariableAlias(aliasedValue.id, modeId, depth + 1);
-      }
-    }
-  } catch (error) {
-    console.warn(`Failed to resolve variable alias:`, error);
-  }
-  
-  return null;
+  return values;
 }
 
 /**
@@ -219,7 +415,9 @@ function resolveVariableAlias(
 function createHeaderSection(
   variable: Variable,
   nodeCount: number,
-  instancesOnly: boolean
+  granularity: ResultGranularity,
+  scopeLabel: string,
+  deprecation: DeprecationInfo | null
 ): FrameNode {
   const headerFrame = figma.createFrame();
   headerFrame.name = "Header";
@@ -244,6 +442,47 @@ function createHeaderSection(
   nameText.fills = [{ type: "SOLID", color: { r: 0.1, g: 0.1, b: 0.1 } }];
   variableInfoFrame.appendChild(nameText);
 
+  const countText = figma.createText();
+  countText.characters = `${nodeCount} ${granularityLabels[granularity].rows}`;
+  countText.fontSize = 12;
+  countText.fontName = getFontName("Regular");
+  countText.fills = [{ type: "SOLID", color: { r: 0.5, g: 0.5, b: 0.5 } }];
+  variableInfoFrame.appendChild(countText);
+
+  const scopeText = figma.createText();
+  scopeText.characters = `In ${scopeLabel}`;
+  scopeText.fontSize = 11;
+  scopeText.fontName = getFontName("Regular");
+  scopeText.fills = [{ type: "SOLID", color: { r: 0.5, g: 0.5, b: 0.5 } }];
+  // Wrap long page lists within the header column
+  scopeText.resize(168, scopeText.height);
+  scopeText.textAutoResize = "HEIGHT";
+  variableInfoFrame.appendChild(scopeText);
+
+  if (deprecation) {
+    const deprecatedText = figma.createText();
+    deprecatedText.characters = deprecation.replacementVariableName
+      ? `Deprecated · use ${deprecation.replacementVariableName}`
+      : "Deprecated · no replacement set";
+    deprecatedText.fontSize = 11;
+    deprecatedText.fontName = getFontName("Bold");
+    deprecatedText.fills = [{ type: "SOLID", color: { r: 0.83, g: 0.18, b: 0.18 } }];
+    deprecatedText.resize(168, deprecatedText.height);
+    deprecatedText.textAutoResize = "HEIGHT";
+    variableInfoFrame.appendChild(deprecatedText);
+
+    if (deprecation.note) {
+      const noteText = figma.createText();
+      noteText.characters = deprecation.note;
+      noteText.fontSize = 11;
+      noteText.fontName = getFontName("Regular");
+      noteText.fills = [{ type: "SOLID", color: { r: 0.4, g: 0.4, b: 0.4 } }];
+      noteText.resize(168, noteText.height);
+      noteText.textAutoResize = "HEIGHT";
+      variableInfoFrame.appendChild(noteText);
+    }
+  }
+
   headerFrame.appendChild(variableInfoFrame);
 
   return headerFrame;
@@ -268,7 +507,8 @@ function formatRGB(r: number, g: number, b: number): string {
 }
 
 /**
- * Creates the color samples section with all modes
+ * Creates the value samples section with all modes.
+ * Colors are shown as swatches, other types as their formatted value.
  */
 function createColorSamplesSection(variable: Variable): FrameNode {
   const colorSamplesContainer = figma.createFrame();
@@ -279,11 +519,11 @@ function createColorSamplesSection(variable: Variable): FrameNode {
   colorSamplesContainer.itemSpacing = 0;
   colorSamplesContainer.fills = [];
 
-  const variableColors = getVariableColors(variable);
-  
-  variableColors.forEach((modeColor) => {
+  const modeValues = getVariableModeValues(variable);
+
+  modeValues.forEach((modeValue) => {
     const modeFrame = figma.createFrame();
-    modeFrame.name = `Mode_${modeColor.modeName}`;
+    modeFrame.name = `Mode_${modeValue.modeName}`;
     modeFrame.layoutMode = "VERTICAL";
     modeFrame.primaryAxisSizingMode = "AUTO";
     modeFrame.counterAxisSizingMode = "FIXED";
@@ -294,50 +534,68 @@ function createColorSamplesSection(variable: Variable): FrameNode {
     modeFrame.paddingLeft = 16;
     modeFrame.paddingRight = 16;
     modeFrame.fills = [];
-    
-    if (variableColors.length > 1) {
+
+    if (modeValues.length > 1) {
       const modeLabel = figma.createText();
-      modeLabel.characters = modeColor.modeName;
+      modeLabel.characters = modeValue.modeName;
       modeLabel.fontSize = 11;
       modeLabel.fontName = getFontName("Regular");
       modeLabel.fills = [{ type: "SOLID", color: { r: 0.5, g: 0.5, b: 0.5 } }];
       modeFrame.appendChild(modeLabel);
     }
-    
-    const colorRect = figma.createRectangle();
-    colorRect.name = `ColorSample_${modeColor.modeName}`;
-    colorRect.resize(72, 32);
-    colorRect.cornerRadius = 6;
-    colorRect.fills = [{ type: "SOLID", color: modeColor.color }];
-    colorRect.strokes = [{ type: "SOLID", color: { r: 0.85, g: 0.85, b: 0.85 } }];
-    colorRect.strokeWeight = 1;
-    
-    modeFrame.appendChild(colorRect);
-    
-    const colorValuesFrame = figma.createFrame();
-    colorValuesFrame.name = "ColorValues";
-    colorValuesFrame.layoutMode = "VERTICAL";
-    colorValuesFrame.primaryAxisSizingMode = "AUTO";
-    colorValuesFrame.counterAxisSizingMode = "AUTO";
-    colorValuesFrame.itemSpacing = 4;
-    colorValuesFrame.fills = [];
-    
-    const hexText = figma.createText();
-    hexText.characters = rgbToHex(modeColor.color.r, modeColor.color.g, modeColor.color.b);
-    hexText.fontSize = 11;
-    hexText.fontName = getFontName("Regular");
-    hexText.fills = [{ type: "SOLID", color: { r: 0.4, g: 0.4, b: 0.4 } }];
-    colorValuesFrame.appendChild(hexText);
-    
-    const rgbText = figma.createText();
-    rgbText.characters = formatRGB(modeColor.color.r, modeColor.color.g, modeColor.color.b);
-    rgbText.fontSize = 10;
-    rgbText.fontName = getFontName("Regular");
-    rgbText.fills = [{ type: "SOLID", color: { r: 0.5, g: 0.5, b: 0.5 } }];
-    colorValuesFrame.appendChild(rgbText);
-    
-    modeFrame.appendChild(colorValuesFrame);
-    
+
+    if (modeValue.value.type === "COLOR") {
+      const color = {
+        r: modeValue.value.value.r,
+        g: modeValue.value.value.g,
+        b: modeValue.value.value.b,
+      };
+
+      const colorRect = figma.createRectangle();
+      colorRect.name = `ColorSample_${modeValue.modeName}`;
+      colorRect.resize(72, 32);
+      colorRect.cornerRadius = 6;
+      colorRect.fills = [{ type: "SOLID", color }];
+      colorRect.strokes = [{ type: "SOLID", color: { r: 0.85, g: 0.85, b: 0.85 } }];
+      colorRect.strokeWeight = 1;
+
+      modeFrame.appendChild(colorRect);
+
+      const colorValuesFrame = figma.createFrame();
+      colorValuesFrame.name = "ColorValues";
+      colorValuesFrame.layoutMode = "VERTICAL";
+      colorValuesFrame.primaryAxisSizingMode = "AUTO";
+      colorValuesFrame.counterAxisSizingMode = "AUTO";
+      colorValuesFrame.itemSpacing = 4;
+      colorValuesFrame.fills = [];
+
+      const hexText = figma.createText();
+      hexText.characters = rgbToHex(color.r, color.g, color.b);
+      hexText.fontSize = 11;
+      hexText.fontName = getFontName("Regular");
+      hexText.fills = [{ type: "SOLID", color: { r: 0.4, g: 0.4, b: 0.4 } }];
+      colorValuesFrame.appendChild(hexText);
+
+      const rgbText = figma.createText();
+      rgbText.characters = formatRGB(color.r, color.g, color.b);
+      rgbText.fontSize = 10;
+      rgbText.fontName = getFontName("Regular");
+      rgbText.fills = [{ type: "SOLID", color: { r: 0.5, g: 0.5, b: 0.5 } }];
+      colorValuesFrame.appendChild(rgbText);
+
+      modeFrame.appendChild(colorValuesFrame);
+    } else {
+      const valueText = figma.createText();
+      valueText.name = `ValueSample_${modeValue.modeName}`;
+      valueText.characters = formatVariableModeValue(modeValue.value);
+      valueText.fontSize = 13;
+      valueText.fontName = getFontName("Medium");
+      valueText.fills = [{ type: "SOLID", color: { r: 0.2, g: 0.2, b: 0.2 } }];
+      valueText.textAutoResize = "HEIGHT";
+      valueText.resize(92, valueText.height);
+      modeFrame.appendChild(valueText);
+    }
+
     colorSamplesContainer.appendChild(modeFrame);
   });
 
@@ -383,7 +641,10 @@ function createDescriptionSection(description: string): FrameNode {
 /**
  * Creates the nodes list section
  */
-function createNodesSection(boundNodes: BoundNodeInfo[]): FrameNode {
+function createNodesSection(
+  boundNodes: BoundNodeInfo[],
+  granularity: ResultGranularity
+): FrameNode {
   const nodesFrame = figma.createFrame();
   nodesFrame.name = "Nodes";
   nodesFrame.layoutMode = "VERTICAL";
@@ -400,8 +661,7 @@ function createNodesSection(boundNodes: BoundNodeInfo[]): FrameNode {
     }
 
     // Verify node still exists in the document
-    const existingNode = figma.getNodeById(nodeInfo.node.id);
-    if (!existingNode) {
+    if (nodeInfo.node.removed) {
       console.warn(
         `Skipping node ${nodeInfo.node.id} - no longer exists in document`
       );
@@ -417,7 +677,7 @@ function createNodesSection(boundNodes: BoundNodeInfo[]): FrameNode {
 
   validBoundNodes.forEach((nodeInfo, index) => {
     try {
-      const nodeItemFrame = createNodeItem(nodeInfo, index + 1);
+      const nodeItemFrame = createNodeItem(nodeInfo, index + 1, granularity);
       nodesFrame.appendChild(nodeItemFrame);
     } catch (error) {
       console.error(
@@ -431,6 +691,94 @@ function createNodesSection(boundNodes: BoundNodeInfo[]): FrameNode {
   return nodesFrame;
 }
 
+/**
+ * Groups the nodes that use the variable through a style by that style
+ */
+function groupNodesByStyle(
+  boundNodes: BoundNodeInfo[]
+): Array<{ style: StyleReference; boundNodes: BoundNodeInfo[] }> {
+  const groups = new Map<string, { style: StyleReference; boundNodes: BoundNodeInfo[] }>();
+  boundNodes.forEach((nodeInfo) => {
+    if (!nodeInfo.viaStyle) {
+      return;
+    }
+    const group = groups.get(nodeInfo.viaStyle.id);
+    if (group) {
+      group.boundNodes.push(nodeInfo);
+    } else {
+      groups.set(nodeInfo.viaStyle.id, {
+        style: nodeInfo.viaStyle,
+        boundNodes: [nodeInfo],
+      });
+    }
+  });
+  return Array.from(groups.values());
+}
+
+/**
+ * Creates a section listing the nodes that use the variable through one style
+ */
+function createStyleGroupSection(
+  style: StyleReference,
+  boundNodes: BoundNodeInfo[],
+  granularity: ResultGranularity
+): FrameNode {
+  const styleFrame = figma.createFrame();
+  styleFrame.name = `Style_${style.name}`;
+  styleFrame.layoutMode = "VERTICAL";
+  styleFrame.primaryAxisSizingMode = "AUTO";
+  styleFrame.counterAxisSizingMode = "AUTO";
+  styleFrame.itemSpacing = 8;
+  styleFrame.fills = [];
+
+  const styleTypeNames: Partial<Record<StyleType, string>> = {
+    PAINT: "Color style",
+    TEXT: "Text style",
+    EFFECT: "Effect style",
+    GRID: "Grid style",
+  };
+
+  const titleText = figma.createText();
+  titleText.characters = `Via ${styleTypeNames[style.type] || "style"} ${style.name} (${boundNodes.length})`;
+  titleText.fontSize = 12;
+  titleText.fontName = getFontName("Bold");
+  titleText.fills = [{ type: "SOLID", color: { r: 0.3, g: 0.3, b: 0.3 } }];
+  styleFrame.appendChild(titleText);
+
+  styleFrame.appendChild(createNodesSection(boundNodes, granularity));
+
+  return styleFrame;
+}
+
+/**
+ * Creates a section listing layers related to the variable without being bound to it:
+ * unbound matches of its value, or layers it was detached from
+ */
+function createExtraMatchesSection(
+  title: string,
+  boundNodes: BoundNodeInfo[],
+  granularity: ResultGranularity
+): FrameNode {
+  const unboundFrame = figma.createFrame();
+  unboundFrame.name = title;
+  unboundFrame.layoutMode = "VERTICAL";
+  unboundFrame.primaryAxisSizingMode = "AUTO";
+  unboundFrame.counterAxisSizingMode = "AUTO";
+  unboundFrame.itemSpacing = 8;
+  unboundFrame.fills = [];
+
+  const titleText = figma.createText();
+  titleText.characters = title;
+  titleText.fontSize = 12;
+  titleText.fontName = getFontName("Bold");
+  titleText.fills = [{ type: "SOLID", color: { r: 0.8, g: 0.4, b: 0.1 } }];
+  unboundFrame.appendChild(titleText);
+
+  unboundFrame.appendChild(createNodesSection(boundNodes, granularity));
+
+  return unboundFrame;
+}
+
 /**
  * Finds the parent component or instance for a given node
  * Traverses up the node tree to find the closest component or instance
@@ -458,10 +806,25 @@ function getFriendlyPropertyName(propertyPath: string): string {
     "strokes[0].color": "Stroke",
     "effects[0].color": "Effect Color",
     "effects[0].radius": "Effect Radius",
-    "effects[0].offset.x": "Effect Offset X",
-    "effects[0].offset.y": "Effect Offset Y",
+    "effects[0].offsetX": "Effect Offset X",
+    "effects[0].offsetY": "Effect Offset Y",
     "effects[0].spread": "Effect Spread",
+    "layoutGrids[0].sectionSize": "Grid Size",
+    "layoutGrids[0].count": "Grid Count",
+    "layoutGrids[0].offset": "Grid Offset",
+    "layoutGrids[0].gutterSize": "Grid Gutter",
     "cornerRadius": "Corner Radius",
+    "strokeTopWeight": "Stroke Weight Top",
+    "strokeRightWeight": "Stroke Weight Right",
+    "strokeBottomWeight": "Stroke Weight Bottom",
+    "strokeLeftWeight": "Stroke Weight Left",
+    "visible": "Visibility",
+    "characters": "Text Content",
+    "fillStyleId": "Fill Style",
+    "strokeStyleId": "Stroke Style",
+    "effectStyleId": "Effect Style",
+    "gridStyleId": "Grid Style",
+    "textStyleId": "Text Style",
     "paddingTop": "Padding Top",
     "paddingBottom": "Padding Bottom",
     "paddingLeft": "Padding Left",
@@ -469,6 +832,9 @@ function getFriendlyPropertyName(propertyPath: string): string {
     "itemSpacing": "Item Spacing",
     "fontSize": "Font Size",
     "fontName": "Font Family",
+    "fontFamily": "Font Family",
+    "fontStyle": "Font Style",
+    "fontWeight": "Font Weight",
     "lineHeight": "Line Height",
     "letterSpacing": "Letter Spacing",
     "paragraphSpacing": "Paragraph Spacing",
@@ -484,6 +850,29 @@ function getFriendlyPropertyName(propertyPath: string): string {
     return friendlyNames[propertyPath];
   }
 
+  // Handle text range bindings like "textRanges[0:5].fontSize" -> "Font Size (characters 1–5)"
+  const textRangePattern = /^textRanges\[(\d+):(\d+)\]\.(.+)$/;
+  const textRangeMatch = propertyPath.match(textRangePattern);
+  if (textRangeMatch) {
+    const [, start, end, subProperty] = textRangeMatch;
+    return `${getFriendlyPropertyName(subProperty)} (characters ${parseInt(start) + 1}–${end})`;
+  }
+
+  // Handle gradient stops like "fills[0].gradientStops[1].color" -> "Fill Gradient Stop 2"
+  const gradientStopPattern = /^(\w+)\[(\d+)\]\.gradientStops\[(\d+)\]\.color$/;
+  const gradientStopMatch = propertyPath.match(gradientStopPattern);
+  if (gradientStopMatch) {
+    const [, property, index, stopIndex] = gradientStopMatch;
+    const baseName = getFriendlyPropertyName(`${property}[${index}].color`);
+    return `${baseName} Gradient Stop ${parseInt(stopIndex) + 1}`;
+  }
+
+  // Handle component properties like "componentProperties.Label#12:0" -> "Property: Label"
+  if (propertyPath.startsWith("componentProperties.")) {
+    const propertyName = propertyPath.slice("componentProperties.".length);
+    return `Property: ${propertyName.split("#")[0]}`;
+  }
+
   // Handle array indices patterns like "fills[1].color" -> "Fill 2"
   const arrayPattern = /^(\w+)\[(\d+)\]\.(.+)$/;
   const arrayMatch = propertyPath.match(arrayPattern);
@@ -493,6 +882,15 @@ function getFriendlyPropertyName(propertyPath: string): string {
     return `${baseName} ${parseInt(index) + 1}`;
   }
 
+  // Handle array-valued fields like "fontSize[1]" -> "Font Size 2"
+  const arrayFieldPattern = /^(\w+)\[(\d+)\]$/;
+  const arrayFieldMatch = propertyPath.match(arrayFieldPattern);
+  if (arrayFieldMatch) {
+    const [, property, index] = arrayFieldMatch;
+    const baseName = getFriendlyPropertyName(property);
+    return parseInt(index) === 0 ? baseName : `${baseName} ${parseInt(index) + 1}`;
+  }
+
   // Handle simple property names
   const simplePattern = /^(\w+)$/;
   const simpleMatch = propertyPath.match(simplePattern);
@@ -509,7 +907,11 @@ function getFriendlyPropertyName(propertyPath: string): string {
 /**
  * Creates a single node item
  */
-function createNodeItem(nodeInfo: BoundNodeInfo, index: number): FrameNode {
+function createNodeItem(
+  nodeInfo: BoundNodeInfo,
+  index: number,
+  granularity: ResultGranularity
+): FrameNode {
   console.log(`Creating node item ${index}:`, nodeInfo);
   const { node, boundProperties, propertyPath, pageName } = nodeInfo;
   
@@ -524,8 +926,7 @@ function createNodeItem(nodeInfo: BoundNodeInfo, index: number): FrameNode {
   }
 
   // Check if node still exists in the document
-  const existingNode = figma.getNodeById(node.id);
-  if (!existingNode) {
+  if (node.removed) {
     console.warn(`Node ${node.id} no longer exists in the document`);
     throw new Error(`Node no longer exists: ${node.id}`);
   }
@@ -544,7 +945,13 @@ function createNodeItem(nodeInfo: BoundNodeInfo, index: number): FrameNode {
   nodeFrame.cornerRadius = 6;
 
   const titleText = figma.createText();
-  const titleContent = `${targetNode.name || targetNode.type} [${pageName}]`;
+  const layerFlags = [
+    nodeInfo.hidden ? "Hidden" : null,
+    nodeInfo.locked ? "Locked" : null,
+  ].filter((flag): flag is string => flag !== null);
+  const titleContent = `${targetNode.name || targetNode.type} [${pageName}]${
+    layerFlags.length > 0 ? ` (${layerFlags.join(", ")})` : ""
+  }`;
   console.log(`📝 Creating text with content: "${titleContent}"`);
   
   titleText.fontSize = 13;
@@ -560,12 +967,10 @@ function createNodeItem(nodeInfo: BoundNodeInfo, index: number): FrameNode {
   try {
     console.log(`🔍 Processing node for hyperlink: ${targetNode.id} (${targetNode.type})`);
 
-    const existingNode = figma.getNodeById(targetNode.id);
-    console.log(
-      `📋 Found existing node: ${existingNode?.id} (${existingNode?.type})`
-    );
+    const isLinkable = !targetNode.removed;
+    console.log(`📋 Node ${targetNode.id} still exists: ${isLinkable}`);
 
-    if (existingNode && existingNode.type !== "DOCUMENT") {
+    if (isLinkable) {
       // Method 1: Try setRangeHyperlink
       try {
         const titleLink: HyperlinkTarget = {
@@ -613,9 +1018,7 @@ function createNodeItem(nodeInfo: BoundNodeInfo, index: number): FrameNode {
       }
     } else {
       console.log(
-        `⏭️ Skipping hyperlink for node ${
-          targetNode.id
-        } - existingNode: ${!!existingNode}, type: ${existingNode?.type}`
+        `⏭️ Skipping hyperlink for node ${targetNode.id} - it was removed`
       );
     }
   } catch (error) {
@@ -661,9 +1064,136 @@ function createNodeItem(nodeInfo: BoundNodeInfo, index: number): FrameNode {
   propertiesText.fills = [{ type: "SOLID", color: { r: 0.6, g: 0.6, b: 0.6 } }];
   nodeFrame.appendChild(propertiesText);
 
+  // Collapsed rows show how many occurrences they stand for
+  if (nodeInfo.occurrences > 1) {
+    const occurrencesText = figma.createText();
+    // Definition rows count the bound layers inside the component itself
+    occurrencesText.characters = `${nodeInfo.occurrences} ${
+      nodeInfo.inDefinition
+        ? "bound layers"
+        : granularityLabels[granularity].occurrences
+    }`;
+    occurrencesText.fontSize = 11;
+    occurrencesText.fontName = getFontName("Medium");
+    occurrencesText.fills = [{ type: "SOLID", color: { r: 0.3, g: 0.3, b: 0.3 } }];
+    nodeFrame.appendChild(occurrencesText);
+  }
+
+  // Components list their instance count so the impact of a change is visible
+  if (nodeInfo.instanceCount !== undefined) {
+    const instanceCountText = figma.createText();
+    instanceCountText.characters = `${
+      nodeInfo.inDefinition ? "Definition · " : ""
+    }${nodeInfo.instanceCount} instance${
+      nodeInfo.instanceCount === 1 ? "" : "s"
+    } in file`;
+    instanceCountText.fontSize = 11;
+    instanceCountText.fontName = getFontName("Regular");
+    instanceCountText.fills = [{ type: "SOLID", color: { r: 0.5, g: 0.5, b: 0.5 } }];
+    nodeFrame.appendChild(instanceCountText);
+  }
+
+  if (nodeInfo.resolvedMode) {
+    nodeFrame.appendChild(createResolvedModeRow(nodeInfo.resolvedMode));
+  }
+
+  if (nodeInfo.unboundMatch) {
+    const unboundText = figma.createText();
+    unboundText.characters = `Not bound · raw value equals ${nodeInfo.unboundMatch.modeName}`;
+    unboundText.fontSize = 11;
+    unboundText.fontName = getFontName("Medium");
+    unboundText.fills = [{ type: "SOLID", color: { r: 0.8, g: 0.4, b: 0.1 } }];
+    nodeFrame.appendChild(unboundText);
+  }
+
+  if (nodeInfo.formerlyBound) {
+    const formerlyBoundText = figma.createText();
+    formerlyBoundText.characters = "Detached · keeps the value it resolved to";
+    formerlyBoundText.fontSize = 11;
+    formerlyBoundText.fontName = getFontName("Medium");
+    formerlyBoundText.fills = [{ type: "SOLID", color: { r: 0.5, g: 0.5, b: 0.5 } }];
+    nodeFrame.appendChild(formerlyBoundText);
+  }
+
+  if (nodeInfo.viaStyle) {
+    const viaStyleText = figma.createText();
+    viaStyleText.characters = `via style ${nodeInfo.viaStyle.name}`;
+    viaStyleText.fontSize = 11;
+    viaStyleText.fontName = getFontName("Medium");
+    viaStyleText.fills = [{ type: "SOLID", color: { r: 0.5, g: 0.3, b: 0.7 } }];
+    nodeFrame.appendChild(viaStyleText);
+  }
+
+  if (nodeInfo.aliasPath) {
+    const aliasPathText = figma.createText();
+    aliasPathText.characters = `via alias ${nodeInfo.aliasPath}`;
+    aliasPathText.fontSize = 11;
+    aliasPathText.fontName = getFontName("Medium");
+    aliasPathText.fills = [{ type: "SOLID", color: { r: 0.2, g: 0.5, b: 0.4 } }];
+    aliasPathText.textAutoResize = "HEIGHT";
+    aliasPathText.resize(220, aliasPathText.height);
+    nodeFrame.appendChild(aliasPathText);
+  }
+
+  // Words of the layer that use the token, for bindings on character ranges
+  if (nodeInfo.textRanges && nodeInfo.textRanges.length > 0) {
+    const textRangesText = figma.createText();
+    const excerpts = nodeInfo.textRanges.map((range) => `“${range.excerpt}”`);
+    textRangesText.characters = `Text: ${excerpts.join(", ")}`;
+    textRangesText.fontSize = 11;
+    textRangesText.fontName = getFontName("Regular");
+    textRangesText.fills = [{ type: "SOLID", color: { r: 0.4, g: 0.4, b: 0.4 } }];
+    textRangesText.textAutoResize = "HEIGHT";
+    textRangesText.resize(220, textRangesText.height);
+    nodeFrame.appendChild(textRangesText);
+  }
+
   return nodeFrame;
 }
 
+/**
+ * Creates a row showing the mode a node renders in and the value it displays
+ */
+function createResolvedModeRow(resolvedMode: ResolvedModeInfo): FrameNode {
+  const modeRow = figma.createFrame();
+  modeRow.name = "ResolvedMode";
+  modeRow.layoutMode = "HORIZONTAL";
+  modeRow.primaryAxisSizingMode = "AUTO";
+  modeRow.counterAxisSizingMode = "AUTO";
+  modeRow.counterAxisAlignItems = "CENTER";
+  modeRow.itemSpacing = 6;
+  modeRow.fills = [];
+
+  if (resolvedMode.value.type === "COLOR") {
+    const { r, g, b } = resolvedMode.value.value;
+    const swatch = figma.createRectangle();
+    swatch.name = "ResolvedColor";
+    swatch.resize(12, 12);
+    swatch.cornerRadius = 3;
+    swatch.fills = [{ type: "SOLID", color: { r, g, b } }];
+    swatch.strokes = [{ type: "SOLID", color: { r: 0.85, g: 0.85, b: 0.85 } }];
+    swatch.strokeWeight = 1;
+    modeRow.appendChild(swatch);
+  }
+
+  const sourceLabels: Record<ResolvedModeInfo["source"], string> = {
+    explicit: "set on layer",
+    inherited: "inherited",
+    default: "default",
+  };
+
+  const modeText = figma.createText();
+  modeText.characters = `${formatVariableModeValue(resolvedMode.value)} · ${
+    resolvedMode.modeName
+  } (${sourceLabels[resolvedMode.source]})`;
+  modeText.fontSize = 11;
+  modeText.fontName = getFontName("Regular");
+  modeText.fills = [{ type: "SOLID", color: { r: 0.4, g: 0.4, b: 0.4 } }];
+  modeRow.appendChild(modeText);
+
+  return modeRow;
+}
+
 /**
  * Gets the page ID for a given node
  */
@@ -2,15 +2,145 @@
  * Finds all nodes in the document where a specific variable is bound/used
  */
 
+import { getDetachedBindings, hasDetachedVariablesKey } from "./detachVariable";
+import {
+  findUnboundValueMatches,
+  getTokenValues,
+  TokenValues,
+} from "./findUnboundMatches";
+import { resolveNodeModeInfo } from "./resolveVariableValue";
+import { loadPageRootNodes } from "./searchScope";
+import {
+  ResolvedModeInfo,
+  ResultGranularity,
+  ScanOptions,
+  SearchResultRow,
+} from "./types";
+import { IndexedNode, IndexedNodes, mixedStyleId } from "./usageIndex";
+import {
+  getCachedCollection,
+  getCachedVariable,
+  isVariableLoaded,
+  loadVariables,
+} from "./variableCache";
+
 export interface BoundNodeInfo {
   node: SceneNode;
   boundProperties: string[];
   propertyPath: string;
   pageName: string;
+  /**
+   * Null for layers that are not on a page of this file, like the main
+   * components of library instances
+   */
+  pageId: string | null;
+  /**
+   * How many bound layers (per layer/instance) or instances (per main component
+   * or component set) this row stands for
+   */
+  occurrences: number;
+  /**
+   * Set when the binding was found in a main component or variant definition
+   * rather than in one of its instances
+   */
+  inDefinition?: boolean;
+  /**
+   * Number of instances in the file, for component and component set rows
+   */
+  instanceCount?: number;
+  textRanges?: TextRangeInfo[];
+  /**
+   * Set when the layer is not bound, but its raw value in boundProperties
+   * equals the variable's value in this mode
+   */
+  unboundMatch?: { modeName: string };
+  /**
+   * Set for layers the variable was detached from; boundProperties then lists
+   * the properties it used to be bound to
+   */
+  formerlyBound?: boolean;
+  /**
+   * IDs of the bound layers this row was built from
+   */
+  layerIds?: string[];
+  viaStyle?: StyleReference;
+  aliasPath?: string;
+  resolvedMode?: ResolvedModeInfo;
+  hidden?: boolean;
+  locked?: boolean;
+}
+
+/**
+ * Whether a layer is hidden or locked, itself or through an ancestor
+ */
+interface LayerState {
+  hidden: boolean;
+  locked: boolean;
+}
+
+/**
+ * How long a search runs before it reports progress and yields to the UI
+ * thread, in milliseconds
+ */
+const timeSliceMs = 8;
+
+/**
+ * A node waiting to be visited by the traversal, with the hidden/locked state
+ * of its ancestors
+ */
+interface TraversalEntry {
+  node: SceneNode;
+  parentState: LayerState;
+  /**
+   * Whether the node is checked for bindings, or only searched for instances
+   */
+  checkWhole: boolean;
+}
+
+/**
+ * A searched variable matched by a binding, directly or through an alias chain
+ */
+interface VariableMatch {
+  variableId: string;
+  aliasPath?: string;
+}
+
+/**
+ * A local style whose paints, effects, grids or typography bind the variable
+ */
+export interface StyleReference {
+  id: string;
+  name: string;
+  type: StyleType;
+}
+
+/**
+ * A character range of a text layer that binds the variable
+ */
+export interface TextRangeInfo {
+  nodeId: string;
+  start: number;
+  end: number;
+  excerpt: string;
+  properties: string[];
+}
+
+/**
+ * Speed of a running search, and how long it should still take
+ */
+export interface SearchTiming {
+  nodesPerSecond: number;
+  // Null until enough nodes were scanned to estimate it
+  secondsRemaining: number | null;
 }
 
 export interface SearchCallbacks {
-  onProgress?: (current: number, total: number, nodesFound: number) => void;
+  onProgress?: (
+    current: number,
+    total: number,
+    nodesFound: number,
+    timing: SearchTiming
+  ) => void;
   onStreamingResult?: (result: {
     variableId: string;
     variableName: string;
@@ -19,55 +149,517 @@ export interface SearchCallbacks {
       name: string;
       type: string;
       pageName: string;
+      pageId: string | null;
     };
+    viaStyleName?: string;
+    aliasPath?: string;
+    resolvedMode?: ResolvedModeInfo;
+    hidden?: boolean;
+    locked?: boolean;
+    inDefinition?: boolean;
+    instanceCount?: number;
   }) => void;
   shouldCancel?: () => boolean;
+  /**
+   * Resolves once the search is no longer paused; called between nodes
+   */
+  waitWhilePaused?: () => Promise<void>;
+}
+
+const textFields: VariableBindableTextField[] = [
+  "fontFamily",
+  "fontSize",
+  "fontStyle",
+  "fontWeight",
+  "letterSpacing",
+  "lineHeight",
+  "paragraphSpacing",
+  "paragraphIndent",
+];
+
+type MatchCallback = (
+  boundVar: VariableAlias | undefined,
+  property: string,
+  textRange?: { start: number; end: number }
+) => void;
+
+interface MatchingStyle {
+  style: StyleReference;
+  variables: Map<string, string | undefined>;
+}
+
+/**
+ * Lookups that a series of searches for the same variables and options can
+ * share, e.g. watch mode re-checking the layers that change: the local styles
+ * that reference the variables, and the instance counts of components
+ */
+export interface SearchLookups {
+  matchingStyles: Map<string, MatchingStyle> | null;
+  instanceCounts: Map<string, number>;
+}
+
+export function createSearchLookups(): SearchLookups {
+  return { matchingStyles: null, instanceCounts: new Map() };
+}
+
+/**
+ * Where a search looks and what it reports, besides the variables and granularity
+ */
+export interface SearchOptions {
+  /**
+   * The layers whose subtrees are searched, every page by default
+   */
+  rootNodes?: readonly SceneNode[];
+  /**
+   * Callbacks for progress, streaming results, pausing and cancellation
+   */
+  callbacks?: SearchCallbacks;
+  scanOptions?: ScanOptions;
+  /**
+   * Fresh usage indexes by page ID; roots on these pages are answered from the
+   * index instead of being traversed
+   */
+  indexedNodesByPage?: ReadonlyMap<string, IndexedNodes>;
+  /**
+   * Whether the subtrees of the roots are searched, or only the roots
+   * themselves; true by default
+   */
+  includeChildren?: boolean;
+  /**
+   * Styles and instance counts found by an earlier search for the same
+   * variables, reused instead of being looked up again
+   */
+  lookups?: SearchLookups;
+}
+
+type StyleMatchCallback = (
+  styleId: string,
+  property: string,
+  textRange?: { start: number; end: number }
+) => void;
+
+/**
+ * Style ID fields of a node and the property whose value comes from that style
+ */
+const styledProperties: Array<{
+  styleField: "fillStyleId" | "strokeStyleId" | "effectStyleId" | "gridStyleId";
+  property: "fills" | "strokes" | "effects" | "layoutGrids";
+}> = [
+  { styleField: "fillStyleId", property: "fills" },
+  { styleField: "strokeStyleId", property: "strokes" },
+  { styleField: "effectStyleId", property: "effects" },
+  { styleField: "gridStyleId", property: "layoutGrids" },
+];
+
+/**
+ * Fields of node.boundVariables that are checked on the paints, effects, grids
+ * and component properties themselves rather than through the generic field loop
+ */
+const fieldsCheckedSeparately = new Set<string>([
+  "fills",
+  "strokes",
+  "effects",
+  "layoutGrids",
+  "componentProperties",
+  "textRangeFills",
+  // Typography fields are checked per character range of the text
+  ...textFields,
+]);
+
+function isVariableAlias(value: unknown): value is VariableAlias {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "type" in value &&
+    (value as VariableAlias).type === "VARIABLE_ALIAS"
+  );
+}
+
+/**
+ * Checks solid colors and gradient stops of a paint list for variable bindings
+ */
+function checkPaints(
+  paints: ReadonlyArray<Paint>,
+  propertyName: string,
+  addMatch: MatchCallback
+) {
+  paints.forEach((paint, index) => {
+    if (paint.type === "SOLID") {
+      addMatch(paint.boundVariables?.color, `${propertyName}[${index}].color`);
+    } else if ("gradientStops" in paint) {
+      paint.gradientStops.forEach((stop, stopIndex) => {
+        addMatch(
+          stop.boundVariables?.color,
+          `${propertyName}[${index}].gradientStops[${stopIndex}].color`
+        );
+      });
+    }
+  });
+}
+
+/**
+ * Checks shadow and blur effects for variable bindings
+ */
+function checkEffects(effects: ReadonlyArray<Effect>, addMatch: MatchCallback) {
+  effects.forEach((effect, index) => {
+    if ("boundVariables" in effect && effect.boundVariables) {
+      for (const [field, alias] of Object.entries(effect.boundVariables)) {
+        if (isVariableAlias(alias)) {
+          addMatch(alias, `effects[${index}].${field}`);
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Checks layout grids for variable bindings
+ */
+function checkLayoutGrids(
+  layoutGrids: ReadonlyArray<LayoutGrid>,
+  addMatch: MatchCallback
+) {
+  layoutGrids.forEach((grid, index) => {
+    if (grid.boundVariables) {
+      for (const [field, alias] of Object.entries(grid.boundVariables)) {
+        if (isVariableAlias(alias)) {
+          addMatch(alias, `layoutGrids[${index}].${field}`);
+        }
+      }
+    }
+  });
+}
+
+/**
+ * Checks typography and fill bindings applied to character ranges of a text node.
+ * Bindings covering the whole text are reported as plain node fields.
+ * Ranges using a matching text or color style are reported through the style instead.
+ */
+function checkTextRanges(
+  node: TextNode,
+  addMatch: MatchCallback,
+  matchingStyleIds: ReadonlySet<string>,
+  addStyleMatch: StyleMatchCallback
+) {
+  const boundVariables = node.boundVariables || {};
+  const hasTextFieldBindings = textFields.some((field) => field in boundVariables);
+  const hasTextStyles =
+    node.textStyleId === figma.mixed || matchingStyleIds.has(node.textStyleId);
+  const hasMixedFills = node.fills === figma.mixed;
+  const textLength = node.characters.length;
+
+  const rangeOf = (segment: { start: number; end: number }) =>
+    segment.start === 0 && segment.end === textLength ? undefined : segment;
+
+  // Segments are requested per field group so they only split where those fields change
+  if (hasTextFieldBindings || hasTextStyles) {
+    for (const segment of node.getStyledTextSegments([
+      "boundVariables",
+      "textStyleId",
+    ])) {
+      if (matchingStyleIds.has(segment.textStyleId)) {
+        addStyleMatch(segment.textStyleId, "textStyleId", rangeOf(segment));
+        continue;
+      }
+      for (const [field, alias] of Object.entries(segment.boundVariables || {})) {
+        addMatch(alias, field, rangeOf(segment));
+      }
+    }
+  }
+
+  if (hasMixedFills) {
+    for (const segment of node.getStyledTextSegments(["fills", "fillStyleId"])) {
+      if (matchingStyleIds.has(segment.fillStyleId)) {
+        addStyleMatch(segment.fillStyleId, "fillStyleId", rangeOf(segment));
+        continue;
+      }
+      checkPaints(segment.fills, "fills", (alias, property) =>
+        addMatch(alias, property, rangeOf(segment))
+      );
+    }
+  }
+}
+
+/**
+ * Finds the local paint, text, effect and grid styles that bind any target variable
+ * @returns Map from style ID to the style and the target variables it references,
+ * keyed by variable ID with the alias path of the match, if any
+ */
+async function findStylesReferencingVariables(
+  getVariableMatches: (boundVar: VariableAlias) => VariableMatch[]
+): Promise<Map<string, MatchingStyle>> {
+  const matchingStyles = new Map<string, MatchingStyle>();
+  const styleBindings: Array<{ style: BaseStyle; aliases: VariableAlias[] }> = [];
+
+  const checkStyle = (
+    style: BaseStyle,
+    collectBindings: (addMatch: MatchCallback) => void
+  ) => {
+    const aliases: VariableAlias[] = [];
+    try {
+      collectBindings((boundVar) => {
+        if (boundVar) {
+          aliases.push(boundVar);
+        }
+      });
+    } catch (error) {
+      console.warn(`Skipping style ${style.id} (${style.name}) due to error:`, error);
+    }
+    if (aliases.length > 0) {
+      styleBindings.push({ style, aliases });
+    }
+  };
+
+  for (const style of await figma.getLocalPaintStylesAsync()) {
+    checkStyle(style, (addMatch) => checkPaints(style.paints, "paints", addMatch));
+  }
+
+  for (const style of await figma.getLocalTextStylesAsync()) {
+    checkStyle(style, (addMatch) => {
+      for (const [field, alias] of Object.entries(style.boundVariables || {})) {
+        addMatch(alias, field);
+      }
+    });
+  }
+
+  for (const style of await figma.getLocalEffectStylesAsync()) {
+    checkStyle(style, (addMatch) => checkEffects(style.effects, addMatch));
+  }
+
+  for (const style of await figma.getLocalGridStylesAsync()) {
+    checkStyle(style, (addMatch) =>
+      checkLayoutGrids(style.layoutGrids, addMatch)
+    );
+  }
+
+  // Match the bindings once every variable the styles refer to is loaded
+  await loadVariables(
+    styleBindings.flatMap(({ aliases }) => aliases.map((alias) => alias.id))
+  );
+
+  for (const { style, aliases } of styleBindings) {
+    const variables = new Map<string, string | undefined>();
+    for (const boundVar of aliases) {
+      for (const match of getVariableMatches(boundVar)) {
+        if (!variables.has(match.variableId) || !match.aliasPath) {
+          variables.set(match.variableId, match.aliasPath);
+        }
+      }
+    }
+    if (variables.size > 0) {
+      matchingStyles.set(style.id, {
+        style: { id: style.id, name: style.name, type: style.type },
+        variables,
+      });
+    }
+  }
+
+  return matchingStyles;
+}
+
+/**
+ * Lists the local paint, text, effect and grid styles that bind each variable
+ * directly, whether or not any layer applies them
+ * @returns Map from variable ID to the styles binding it
+ */
+export async function findStylesByVariable(): Promise<
+  Map<string, StyleReference[]>
+> {
+  const stylesByVariable = new Map<string, StyleReference[]>();
+  const styles = await findStylesReferencingVariables((boundVar) => [
+    { variableId: boundVar.id },
+  ]);
+  styles.forEach(({ style, variables }) => {
+    variables.forEach((_, variableId) => {
+      stylesByVariable.set(variableId, [
+        ...(stylesByVariable.get(variableId) || []),
+        style,
+      ]);
+    });
+  });
+  return stylesByVariable;
+}
+
+/**
+ * Merges adjacent ranges binding the same property and groups them by range
+ */
+function mergeTextRanges(
+  node: SceneNode,
+  rangeBindings: Array<{ start: number; end: number; property: string }>
+): TextRangeInfo[] {
+  const characters = node.type === "TEXT" ? node.characters : "";
+  const sorted = [...rangeBindings].sort(
+    (a, b) => a.property.localeCompare(b.property) || a.start - b.start
+  );
+
+  const merged: Array<{ start: number; end: number; property: string }> = [];
+  for (const binding of sorted) {
+    const previous = merged[merged.length - 1];
+    if (
+      previous &&
+      previous.property === binding.property &&
+      previous.end === binding.start
+    ) {
+      previous.end = binding.end;
+    } else {
+      merged.push({ ...binding });
+    }
+  }
+
+  const rangesByOffsets = new Map<string, TextRangeInfo>();
+  for (const binding of merged) {
+    const rangeKey = `${binding.start}:${binding.end}`;
+    const existing = rangesByOffsets.get(rangeKey);
+    if (existing) {
+      existing.properties.push(binding.property);
+    } else {
+      rangesByOffsets.set(rangeKey, {
+        nodeId: node.id,
+        start: binding.start,
+        end: binding.end,
+        excerpt: getTextExcerpt(characters.slice(binding.start, binding.end)),
+        properties: [binding.property],
+      });
+    }
+  }
+
+  return Array.from(rangesByOffsets.values()).sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Shortens a piece of text to a single line suitable for display
+ */
+function getTextExcerpt(text: string, maxLength: number = 40): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > maxLength
+    ? `${singleLine.slice(0, maxLength - 1)}…`
+    : singleLine;
+}
+
+/**
+ * Builds a key that keeps direct, via-style and via-alias usages apart
+ */
+function getResultKey(
+  baseKey: string,
+  viaStyle?: StyleReference,
+  aliasPath?: string
+): string {
+  return [baseKey, viaStyle?.id || "", aliasPath || ""].join("|");
 }
 
 /**
  * Recursively traverses all nodes in the document to find where a variable is used
  * @param variable - The variable to search for
- * @param instancesOnly - If true, only search within INSTANCE nodes
- * @param pageId - Optional page ID to limit search scope
- * @param callbacks - Optional callbacks for progress, streaming results, and cancellation
+ * @param granularity - How results are collapsed: per layer, top-level instance, main component or component set
+ * @param search - Optional roots, callbacks and scan options
  * @returns Array of nodes and properties where the variable is bound
  */
 export async function findNodesWithBoundVariable(
   variable: Variable,
-  instancesOnly: boolean = false,
-  pageId?: string | null,
-  callbacks?: SearchCallbacks
+  granularity: ResultGranularity = "layer",
+  search: SearchOptions = {}
 ): Promise<BoundNodeInfo[]> {
-  const boundNodes: BoundNodeInfo[] = [];
-  const variableId = variable.id;
-  const variableKey = variable.key;
+  const results = await findNodesWithBoundVariables(
+    [variable],
+    granularity,
+    search
+  );
+  return results.get(variable.id) || [];
+}
 
-  // PHASE 1 OPTIMIZATION: Pre-build Set of target variable IDs for fast lookups
-  const targetVariableIds = new Set<string>([variableId]);
+/**
+ * Traverses the document once and collects the bound nodes of every given variable
+ * @param variables - The variables to search for
+ * @param granularity - How results are collapsed: per layer, top-level instance, main component or component set
+ * @param search - Optional roots, callbacks, scan options, usage indexes and lookups
+ * @returns Map from variable ID to the nodes and properties where it is bound
+ */
+export async function findNodesWithBoundVariables(
+  variables: Variable[],
+  granularity: ResultGranularity = "layer",
+  search: SearchOptions = {}
+): Promise<Map<string, BoundNodeInfo[]>> {
+  const {
+    rootNodes,
+    callbacks,
+    scanOptions: options = {},
+    indexedNodesByPage,
+    includeChildren = true,
+    lookups = createSearchLookups(),
+  } = search;
+  const boundNodesByVariable = new Map<string, BoundNodeInfo[]>();
+  let boundNodesCount = 0;
+
+  // Every granularity except "layer" only reports bindings inside instances
+  const instancesOnly = granularity !== "layer";
+
+  // Lookup from bound variable ID to the target variable it matches
+  const targetVariableIds = new Map<string, string>();
+  // Lookup from variable key to target variable ID, for imported copies of the same variable
+  const targetVariableKeys = new Map<string, string>();
+  const targetVariables = new Map<string, Variable>();
 
   // Cache for variable IDs to keys - prevents repeated API calls
   const variableKeyCache = new Map<string, string>();
-  variableKeyCache.set(variableId, variableKey);
 
-  // PHASE 1 OPTIMIZATION: Cache variable objects to avoid repeated getVariableById calls
-  const variableCache = new Map<string, Variable>();
-  variableCache.set(variableId, variable);
+  // Rows added per variable, keyed by row node ID, to collapse repeated occurrences
+  const rowsByVariable = new Map<
+    string,
+    Map<string, { info: BoundNodeInfo; occurrenceIds: Set<string> }>
+  >();
+
+  for (const variable of variables) {
+    targetVariableIds.set(variable.id, variable.id);
+    targetVariableKeys.set(variable.key, variable.id);
+    targetVariables.set(variable.id, variable);
+    variableKeyCache.set(variable.id, variable.key);
+    boundNodesByVariable.set(variable.id, []);
+    rowsByVariable.set(variable.id, new Map());
+  }
+
+  // Values of the target variables are resolved synchronously from the shared cache
+  await loadVariables(variables.map((variable) => variable.id));
 
-  // Track instance names we've already added to avoid duplicate component instances
-  const processedInstanceNames = new Set<string>();
+  // Instance counts per component or component set ID
+  const instanceCountCache = lookups.instanceCounts;
+
+  // Alias chain matches per bound variable ID
+  const aliasMatchCache = new Map<string, VariableMatch[]>();
+
+  // Local styles that reference a target variable, filled in before traversal
+  let matchingStyles = new Map<string, MatchingStyle>();
+  let matchingStyleIds: ReadonlySet<string> = new Set<string>();
+
+  // Variable values to compare raw values against, when unbound matches are included
+  const unboundTokens: TokenValues[] = options.includeUnboundMatches
+    ? variables.map((variable) => getTokenValues(variable, getCachedCollection))
+    : [];
+  const unboundTolerance = {
+    color: options.colorTolerance ?? 1,
+    number: options.numberTolerance ?? 0.01,
+  };
+  // Unbound match rows per variable, keyed by node ID
+  const unboundRowsByVariable = new Map<string, Map<string, BoundNodeInfo>>();
+
+  // Layers are only checked for detached variables in files where any were detached
+  const hasDetachedVariables =
+    figma.root.getPluginData(hasDetachedVariablesKey) === "true";
+  // Formerly bound rows per variable, keyed by node ID
+  const formerRowsByVariable = new Map<string, Map<string, BoundNodeInfo>>();
 
   // PHASE 2: Progress tracking
   let nodesProcessed = 0;
-  let totalNodes = 0;
 
   /**
-   * Helper function to check if a variable alias matches our target variable
-   * PHASE 1 OPTIMIZED: Fast Set lookup, then cache-based key comparison
+   * Returns the ID of the target variable a variable alias refers to, if any.
+   * The bound variable must be loaded in the variable cache.
+   * PHASE 1 OPTIMIZED: Fast Map lookup, then cache-based key comparison
    */
-  function isMatchingVariable(boundVar: VariableAlias): boolean {
-    // Fast path: Check Set first (O(1) instead of string comparison)
-    if (targetVariableIds.has(boundVar.id)) {
-      return true;
+  function getMatchingVariableId(boundVar: VariableAlias): string | null {
+    // Fast path: direct ID lookup
+    const directMatch = targetVariableIds.get(boundVar.id);
+    if (directMatch) {
+      return directMatch;
     }
 
     // Check cache first
@@ -77,37 +669,147 @@ export async function findNodesWithBoundVariable(
       // Not in cache, fetch once and cache it
       try {
         // Check variable cache first to avoid API call
-        let referencedVar = variableCache.get(boundVar.id);
-        if (!referencedVar) {
-          const fetchedVar = figma.variables.getVariableById(boundVar.id);
-          if (fetchedVar) {
-            referencedVar = fetchedVar;
-            variableCache.set(boundVar.id, fetchedVar);
-          }
-        }
+        const referencedVar = getCachedVariable(boundVar.id);
 
         if (referencedVar) {
           cachedKey = referencedVar.key;
           variableKeyCache.set(boundVar.id, cachedKey);
 
-          // If keys match, add to targetVariableIds for even faster future lookups
-          if (cachedKey === variableKey) {
-            targetVariableIds.add(boundVar.id);
+          // If keys match, remember the ID for even faster future lookups
+          const keyMatch = targetVariableKeys.get(cachedKey);
+          if (keyMatch) {
+            targetVariableIds.set(boundVar.id, keyMatch);
           }
         } else {
           // Cache null result to avoid repeated lookups
           variableKeyCache.set(boundVar.id, "");
-          return false;
+          return null;
         }
       } catch (error) {
         // Cache failed lookup
         variableKeyCache.set(boundVar.id, "");
-        return false;
+        return null;
       }
     }
 
     // Compare keys
-    return cachedKey === variableKey;
+    return targetVariableKeys.get(cachedKey) || null;
+  }
+
+  /**
+   * Returns the target variables a binding matches, directly or (when enabled)
+   * through an alias chain
+   */
+  function getVariableMatches(boundVar: VariableAlias): VariableMatch[] {
+    const matchingVariableId = getMatchingVariableId(boundVar);
+    if (matchingVariableId) {
+      return [{ variableId: matchingVariableId }];
+    }
+    if (!options.includeAliases) {
+      return [];
+    }
+
+    let aliasMatches = aliasMatchCache.get(boundVar.id);
+    if (!aliasMatches) {
+      try {
+        const boundVariable = getCachedVariable(boundVar.id);
+        aliasMatches = boundVariable ? findAliasMatches(boundVariable) : [];
+      } catch (error) {
+        aliasMatches = [];
+      }
+      aliasMatchCache.set(boundVar.id, aliasMatches);
+    }
+    return aliasMatches;
+  }
+
+  /**
+   * Follows the alias chains of a variable in every mode and returns each target
+   * variable they reach, with a path like "action/primary → blue/500 (Dark)"
+   */
+  function findAliasMatches(variable: Variable): VariableMatch[] {
+    const chainsByTarget = new Map<
+      string,
+      { names: string[]; modeNames: string[] }
+    >();
+
+    const modes = getCachedCollection(variable.variableCollectionId)?.modes || [];
+
+    for (const [modeId, value] of Object.entries(variable.valuesByMode)) {
+      if (!isVariableAlias(value)) {
+        continue;
+      }
+      const modeName =
+        modes.find((mode) => mode.modeId === modeId)?.name || modeId;
+
+      for (const chain of followAliasChain(value.id, new Set([variable.id]), 0)) {
+        const existing = chainsByTarget.get(chain.variableId);
+        if (existing) {
+          if (!existing.modeNames.includes(modeName)) {
+            existing.modeNames.push(modeName);
+          }
+        } else {
+          chainsByTarget.set(chain.variableId, {
+            names: [variable.name, ...chain.names],
+            modeNames: [modeName],
+          });
+        }
+      }
+    }
+
+    return Array.from(chainsByTarget.entries()).map(
+      ([variableId, { names, modeNames }]) => ({
+        variableId,
+        aliasPath:
+          modes.length > 1
+            ? `${names.join(" → ")} (${modeNames.join(", ")})`
+            : names.join(" → "),
+      })
+    );
+  }
+
+  /**
+   * Walks an alias chain through all modes of each referenced variable
+   * @returns Every target variable reached, with the names along the way
+   */
+  function followAliasChain(
+    variableId: string,
+    visited: Set<string>,
+    depth: number
+  ): Array<{ variableId: string; names: string[] }> {
+    if (depth > 10 || visited.has(variableId)) {
+      return [];
+    }
+
+    const variable = getCachedVariable(variableId);
+    if (!variable) {
+      return [];
+    }
+
+    const targetVariableId =
+      targetVariableIds.get(variable.id) || targetVariableKeys.get(variable.key);
+    if (targetVariableId) {
+      return [{ variableId: targetVariableId, names: [variable.name] }];
+    }
+
+    const nextVisited = new Set(visited).add(variableId);
+    const chains: Array<{ variableId: string; names: string[] }> = [];
+    const referencedIds = new Set<string>();
+
+    for (const value of Object.values(variable.valuesByMode)) {
+      if (isVariableAlias(value) && !referencedIds.has(value.id)) {
+        referencedIds.add(value.id);
+        for (const chain of followAliasChain(value.id, nextVisited, depth + 1)) {
+          if (!chains.some((existing) => existing.variableId === chain.variableId)) {
+            chains.push({
+              variableId: chain.variableId,
+              names: [variable.name, ...chain.names],
+            });
+          }
+        }
+      }
+    }
+
+    return chains;
   }
 
   /**
@@ -131,185 +833,236 @@ export async function findNodesWithBoundVariable(
   }
 
   /**
-   * Recursively check a node and its children for variable bindings
-   * PHASE 2: Added cancellation, progress tracking, and async yielding
+   * Find the main component definition that contains this node, if any
    */
-  async function checkNode(node: SceneNode): Promise<boolean> {
-    // PHASE 2: Check for cancellation
-    if (callbacks?.shouldCancel?.()) {
-      return false; // Signal cancellation
+  function findContainingComponent(node: SceneNode): ComponentNode | null {
+    let currentNode: BaseNode | null = node;
+
+    while (currentNode && currentNode.type !== "PAGE") {
+      if (currentNode.type === "COMPONENT") {
+        return currentNode as ComponentNode;
+      }
+      currentNode = currentNode.parent;
     }
 
-    // PHASE 2: Update progress and yield to UI thread
-    nodesProcessed++;
-    if (callbacks?.onProgress && totalNodes > 0) {
-      // Update every 10 nodes, or on first/last node
-      if (
-        nodesProcessed % 10 === 0 ||
-        nodesProcessed === 1 ||
-        nodesProcessed === totalNodes
-      ) {
-        const percentage = Math.min(100, Math.round((nodesProcessed / totalNodes) * 100));
-        callbacks.onProgress(Math.min(nodesProcessed, totalNodes), totalNodes, boundNodes.length);
+    return null;
+  }
 
-        // Yield to UI thread every 10 nodes to allow progress updates to render
-        await new Promise((resolve) => setTimeout(resolve, 0));
-      }
+  /**
+   * Counts the instances of a component, or of every variant in a component set
+   */
+  async function getInstanceCount(node: SceneNode): Promise<number | undefined> {
+    if (node.type !== "COMPONENT" && node.type !== "COMPONENT_SET") {
+      return undefined;
     }
 
-    const boundProperties: string[] = [];
+    const cached = instanceCountCache.get(node.id);
+    if (cached !== undefined) {
+      return cached;
+    }
 
+    let count = 0;
     try {
-      // PHASE 1 OPTIMIZATION: Skip invisible and locked nodes for performance
-      if ("visible" in node && node.visible === false) {
-        return true; // Skip invisible nodes and their children
-      }
-      if ("locked" in node && node.locked === true) {
-        return true; // Skip locked nodes and their children
+      const components =
+        node.type === "COMPONENT_SET"
+          ? node.children.filter(
+              (child): child is ComponentNode => child.type === "COMPONENT"
+            )
+          : [node];
+      for (const component of components) {
+        count += (await component.getInstancesAsync()).length;
       }
+    } catch (error) {
+      console.warn(`Could not count instances of ${node.name}:`, error);
+    }
 
-      // When searching for instances, we need to traverse into all instances
-      // to find nested instances, so we don't skip here.
-      // Deduplication happens when adding to results based on top-level instance.
+    instanceCountCache.set(node.id, count);
+    return count;
+  }
 
-      // Check fills for variable bindings
-      if ("fills" in node && node.fills && Array.isArray(node.fills)) {
-        node.fills.forEach((fill, index) => {
-          if (fill.type === "SOLID" && fill.boundVariables?.color) {
-            if (isMatchingVariable(fill.boundVariables.color)) {
-              boundProperties.push(`fills[${index}].color`);
-            }
-          }
+  /**
+   * Combines a node's own hidden/locked flags with those inherited from its ancestors
+   */
+  function getLayerState(node: SceneNode, parentState: LayerState): LayerState {
+    return {
+      hidden: parentState.hidden || ("visible" in node && node.visible === false),
+      locked: parentState.locked || ("locked" in node && node.locked === true),
+    };
+  }
+
+  /**
+   * Whether hidden or locked content should be skipped under the scan options
+   */
+  function isExcluded(layerState: LayerState): boolean {
+    return (
+      (layerState.hidden && !options.includeHidden) ||
+      (layerState.locked && !options.includeLocked)
+    );
+  }
+
+  /**
+   * Check a single node for variable bindings; the traversal loop visits its children
+   * @returns The hidden/locked state the node passes on to its children, or null
+   * when the node and its subtree are skipped
+   */
+  async function checkNode(
+    node: SceneNode,
+    parentState: LayerState = { hidden: false, locked: false }
+  ): Promise<LayerState | null> {
+    // Bound properties of this node, grouped by the target variable they match
+    // and, for usages through a style, by that style
+    const matches = new Map<
+      string,
+      {
+        variableId: string;
+        viaStyle?: StyleReference;
+        aliasPath?: string;
+        boundProperties: string[];
+        rangeBindings: Array<{ start: number; end: number; property: string }>;
+      }
+    >();
+
+    const recordMatch = (
+      variableMatch: VariableMatch,
+      viaStyle: StyleReference | undefined,
+      property: string,
+      textRange?: { start: number; end: number }
+    ) => {
+      const { variableId, aliasPath } = variableMatch;
+      const matchKey = getResultKey(variableId, viaStyle, aliasPath);
+      let match = matches.get(matchKey);
+      if (!match) {
+        match = {
+          variableId,
+          viaStyle,
+          aliasPath,
+          boundProperties: [],
+          rangeBindings: [],
+        };
+        matches.set(matchKey, match);
+      }
+      if (textRange) {
+        match.rangeBindings.push({
+          start: textRange.start,
+          end: textRange.end,
+          property,
         });
+      } else {
+        match.boundProperties.push(property);
       }
+    };
 
-      // Check strokes for variable bindings
-      if ("strokes" in node && node.strokes && Array.isArray(node.strokes)) {
-        node.strokes.forEach((stroke, index) => {
-          if (stroke.type === "SOLID" && stroke.boundVariables?.color) {
-            if (isMatchingVariable(stroke.boundVariables.color)) {
-              boundProperties.push(`strokes[${index}].color`);
-            }
-          }
-        });
+    // Bindings are matched once the variables they refer to are loaded
+    const foundBindings: Array<{
+      boundVar: VariableAlias;
+      property: string;
+      textRange?: { start: number; end: number };
+    }> = [];
+    const addMatch: MatchCallback = (boundVar, property, textRange) => {
+      if (boundVar) {
+        foundBindings.push({ boundVar, property, textRange });
       }
+    };
 
-      // Check basic boundVariables properties that are common across all node types
-      if ("boundVariables" in node && node.boundVariables) {
-        // Width and height (available on most nodes)
-        if (
-          node.boundVariables.width &&
-          isMatchingVariable(node.boundVariables.width)
-        ) {
-          boundProperties.push("width");
-        }
-        if (
-          node.boundVariables.height &&
-          isMatchingVariable(node.boundVariables.height)
-        ) {
-          boundProperties.push("height");
-        }
+    const addStyleMatch: StyleMatchCallback = (styleId, property, textRange) => {
+      const matchingStyle = matchingStyles.get(styleId);
+      if (!matchingStyle) {
+        return;
+      }
+      matchingStyle.variables.forEach((aliasPath, variableId) => {
+        recordMatch(
+          { variableId, aliasPath },
+          matchingStyle.style,
+          property,
+          textRange
+        );
+      });
+    };
 
-        // Layout properties (auto-layout nodes)
-        if (
-          node.boundVariables.paddingLeft &&
-          isMatchingVariable(node.boundVariables.paddingLeft)
-        ) {
-          boundProperties.push("paddingLeft");
-        }
-        if (
-          node.boundVariables.paddingRight &&
-          isMatchingVariable(node.boundVariables.paddingRight)
-        ) {
-          boundProperties.push("paddingRight");
-        }
-        if (
-          node.boundVariables.paddingTop &&
-          isMatchingVariable(node.boundVariables.paddingTop)
-        ) {
-          boundProperties.push("paddingTop");
-        }
-        if (
-          node.boundVariables.paddingBottom &&
-          isMatchingVariable(node.boundVariables.paddingBottom)
-        ) {
-          boundProperties.push("paddingBottom");
-        }
-        if (
-          node.boundVariables.itemSpacing &&
-          isMatchingVariable(node.boundVariables.itemSpacing)
-        ) {
-          boundProperties.push("itemSpacing");
-        }
-        if (
-          node.boundVariables.counterAxisSpacing &&
-          isMatchingVariable(node.boundVariables.counterAxisSpacing)
-        ) {
-          boundProperties.push("counterAxisSpacing");
-        }
+    try {
+      // PHASE 1 OPTIMIZATION: Skip hidden and locked nodes unless the scan includes them
+      const layerState = getLayerState(node, parentState);
+      if (isExcluded(layerState)) {
+        return null; // Skip the node and its children
+      }
 
-        // Text properties (text nodes only)
-        if (node.type === "TEXT") {
-          if (
-            node.boundVariables.characters &&
-            isMatchingVariable(node.boundVariables.characters)
-          ) {
-            boundProperties.push("characters");
+      checkUnboundValues(node, layerState);
+      checkFormerBindings(node, layerState);
+
+      // Check usages through local styles. Properties that come from a matching
+      // style are reported via the style rather than as direct bindings.
+      const propertiesFromStyles = new Set<string>();
+      for (const { styleField, property } of styledProperties) {
+        if (styleField in node) {
+          const styleId = (node as unknown as Record<string, unknown>)[styleField];
+          if (typeof styleId === "string" && matchingStyles.has(styleId)) {
+            addStyleMatch(styleId, styleField);
+            propertiesFromStyles.add(property);
           }
         }
       }
 
-      // Use Figma's built-in method to get all bound variables for this node
-      // Note: This approach manually checks common bound variable properties
-      // since getBoundVariablesForNode() may not be available in all API versions
+      // Check fills for variable bindings
+      if (
+        "fills" in node &&
+        node.fills &&
+        Array.isArray(node.fills) &&
+        !propertiesFromStyles.has("fills")
+      ) {
+        checkPaints(node.fills, "fills", addMatch);
+      }
 
-      // Check effect properties (shadows, blurs)
-      if ("effects" in node && node.effects && Array.isArray(node.effects)) {
-        node.effects.forEach((effect, index) => {
-          if (effect.type === "DROP_SHADOW" || effect.type === "INNER_SHADOW") {
-            if (
-              effect.boundVariables?.color &&
-              isMatchingVariable(effect.boundVariables.color)
-            ) {
-              boundProperties.push(`effects[${index}].color`);
-            }
-            if (
-              effect.boundVariables?.offset?.x &&
-              isMatchingVariable(effect.boundVariables.offset.x)
-            ) {
-              boundProperties.push(`effects[${index}].offset.x`);
-            }
-            if (
-              effect.boundVariables?.offset?.y &&
-              isMatchingVariable(effect.boundVariables.offset.y)
-            ) {
-              boundProperties.push(`effects[${index}].offset.y`);
-            }
-            if (
-              effect.boundVariables?.radius &&
-              isMatchingVariable(effect.boundVariables.radius)
-            ) {
-              boundProperties.push(`effects[${index}].radius`);
-            }
-            if (
-              effect.boundVariables?.spread &&
-              isMatchingVariable(effect.boundVariables.spread)
-            ) {
-              boundProperties.push(`effects[${index}].spread`);
-            }
+      // Check strokes for variable bindings
+      if (
+        "strokes" in node &&
+        node.strokes &&
+        Array.isArray(node.strokes) &&
+        !propertiesFromStyles.has("strokes")
+      ) {
+        checkPaints(node.strokes, "strokes", addMatch);
+      }
+
+      // Check every field bound directly on the node (size, layout, radii,
+      // stroke weights, opacity, visibility, typography, ...)
+      if ("boundVariables" in node && node.boundVariables) {
+        for (const [field, binding] of Object.entries(node.boundVariables)) {
+          // These are checked per paint/effect/grid/property for more precise paths
+          if (fieldsCheckedSeparately.has(field) || !binding) {
+            continue;
           }
-          if (
-            effect.type === "LAYER_BLUR" ||
-            effect.type === "BACKGROUND_BLUR"
-          ) {
-            if (
-              effect.boundVariables?.radius &&
-              isMatchingVariable(effect.boundVariables.radius)
-            ) {
-              boundProperties.push(`effects[${index}].radius`);
-            }
+          if (Array.isArray(binding)) {
+            binding.forEach((alias: VariableAlias, index: number) => {
+              addMatch(alias, `${field}[${index}]`);
+            });
+          } else if (isVariableAlias(binding)) {
+            addMatch(binding, field);
           }
-        });
+        }
+      }
+
+      // Check bindings on individual character ranges of text
+      if (node.type === "TEXT") {
+        checkTextRanges(node, addMatch, matchingStyleIds, addStyleMatch);
+      }
+
+      // Check effect properties (shadows, blurs)
+      if (
+        "effects" in node &&
+        node.effects &&
+        Array.isArray(node.effects) &&
+        !propertiesFromStyles.has("effects")
+      ) {
+        checkEffects(node.effects, addMatch);
+      }
+
+      // Check layout grid properties
+      if (
+        "layoutGrids" in node &&
+        node.layoutGrids &&
+        Array.isArray(node.layoutGrids) &&
+        !propertiesFromStyles.has("layoutGrids")
+      ) {
+        checkLayoutGrids(node.layoutGrids, addMatch);
       }
 
       // Check component properties (for instances)
@@ -322,11 +1075,12 @@ export async function findNodesWithBoundVariable(
                 if (
                   propValue &&
                   typeof propValue === "object" &&
-                  "boundVariables" in propValue &&
-                  propValue.boundVariables?.value &&
-                  isMatchingVariable(propValue.boundVariables.value)
+                  "boundVariables" in propValue
                 ) {
-                  boundProperties.push(`componentProperties.${propName}`);
+                  addMatch(
+                    propValue.boundVariables?.value,
+                    `componentProperties.${propName}`
+                  );
                 }
               }
             );
@@ -340,68 +1094,285 @@ export async function findNodesWithBoundVariable(
         }
       }
 
-      // If any properties are bound to this variable, add the node to results
-      if (boundProperties.length > 0) {
-        if (instancesOnly) {
-          // Find the top-level instance containing this node
-          // This works whether the node itself is an instance or a child inside an instance
-          const topInstance = findTopLevelInstance(node);
-
-          if (topInstance) {
-            if (!processedInstanceNames.has(topInstance.name)) {
-              processedInstanceNames.add(topInstance.name);
-              boundNodes.push({
-                node: topInstance,
-                boundProperties,
-                propertyPath: getNodePath(topInstance),
-                pageName: getNodePage(topInstance),
-              });
-
-              // PHASE 2: Emit streaming result
-              if (callbacks?.onStreamingResult) {
-                callbacks.onStreamingResult({
-                  variableId: variable.id,
-                  variableName: variable.name,
-                  instanceNode: {
-                    id: topInstance.id,
-                    name: topInstance.name,
-                    type: topInstance.type,
-                    pageName: getNodePage(topInstance),
-                  },
-                });
-              }
-            }
-          }
-        } else {
-          // Normal mode - add the node itself
-          boundNodes.push({
-            node,
-            boundProperties,
-            propertyPath: getNodePath(node),
-            pageName: getNodePage(node),
-          });
+      const unloadedIds = foundBindings
+        .map(({ boundVar }) => boundVar.id)
+        .filter((variableId) => !isVariableLoaded(variableId));
+      if (unloadedIds.length > 0) {
+        await loadVariables(unloadedIds);
+      }
+      for (const { boundVar, property, textRange } of foundBindings) {
+        for (const variableMatch of getVariableMatches(boundVar)) {
+          recordMatch(variableMatch, undefined, property, textRange);
         }
       }
 
-      // Recursively check children
-      if ("children" in node && node.children) {
-        for (const child of node.children) {
-          const shouldContinue = await checkNode(child);
-          if (!shouldContinue) {
-            return false; // Propagate cancellation
-          }
-        }
+      // Add the node to the results of every variable it is bound to
+      for (const match of Array.from(matches.values())) {
+        const textRanges = mergeTextRanges(node, match.rangeBindings);
+        const boundProperties = [
+          ...match.boundProperties,
+          ...textRanges.flatMap((range) =>
+            range.properties.map(
+              (property) => `textRanges[${range.start}:${range.end}].${property}`
+            )
+          ),
+        ];
+        await addResult(
+          match.variableId,
+          node,
+          boundProperties,
+          textRanges,
+          layerState,
+          match.viaStyle,
+          match.aliasPath
+        );
       }
+
+      return layerState;
     } catch (error) {
       // Skip nodes that throw errors during property access
       console.warn(
         `Skipping node ${node.id} (${node.name}) due to error:`,
         error
       );
+      return null;
+    }
+  }
+
+  /**
+   * Records a bound node for a target variable, collapsed into a row of the
+   * requested granularity
+   */
+  async function addResult(
+    matchingVariableId: string,
+    node: SceneNode,
+    boundProperties: string[],
+    textRanges: TextRangeInfo[],
+    layerState: LayerState,
+    viaStyle?: StyleReference,
+    aliasPath?: string
+  ) {
+    const boundNodes = boundNodesByVariable.get(matchingVariableId);
+    const targetVariable = targetVariables.get(matchingVariableId);
+    const rows = rowsByVariable.get(matchingVariableId);
+    if (!boundNodes || !targetVariable || !rows) {
+      return;
+    }
+
+    const collapsed = await getCollapsedRow(node);
+    if (!collapsed) {
+      return;
+    }
+    const { rowNode, occurrenceId } = collapsed;
+
+    // Usages through a style or an alias are listed separately from direct bindings
+    const rowKey = getResultKey(rowNode.id, viaStyle, aliasPath);
+    const existingRow = rows.get(rowKey);
+
+    if (existingRow) {
+      // Merge into the existing row and count the occurrence it stands for
+      existingRow.occurrenceIds.add(occurrenceId);
+      existingRow.info.occurrences = existingRow.occurrenceIds.size;
+      if (!existingRow.info.layerIds?.includes(node.id)) {
+        existingRow.info.layerIds?.push(node.id);
+      }
+      boundProperties.forEach((property) => {
+        if (!existingRow.info.boundProperties.includes(property)) {
+          existingRow.info.boundProperties.push(property);
+        }
+      });
+      if (textRanges.length > 0) {
+        existingRow.info.textRanges = [
+          ...(existingRow.info.textRanges || []),
+          ...textRanges,
+        ];
+      }
+      return;
+    }
+
+    // The mode comes from the bound layer itself, not the reported row node
+    const resolvedMode = resolveNodeModeInfo(
+      node,
+      targetVariable,
+      getCachedCollection
+    );
+
+    const info: BoundNodeInfo = {
+      node: rowNode,
+      boundProperties: [...boundProperties],
+      propertyPath: getNodePath(rowNode),
+      pageName: getNodePage(rowNode),
+      pageId: getNodePageId(rowNode),
+      occurrences: 1,
+      inDefinition: collapsed.inDefinition || undefined,
+      instanceCount: await getInstanceCount(rowNode),
+      textRanges: textRanges.length > 0 ? textRanges : undefined,
+      layerIds: [node.id],
+      viaStyle,
+      aliasPath,
+      resolvedMode,
+      hidden: layerState.hidden || undefined,
+      locked: layerState.locked || undefined,
+    };
+    rows.set(rowKey, { info, occurrenceIds: new Set([occurrenceId]) });
+    boundNodes.push(info);
+    boundNodesCount++;
+
+    // PHASE 2: Emit streaming result
+    if (callbacks?.onStreamingResult) {
+      callbacks.onStreamingResult({
+        variableId: targetVariable.id,
+        variableName: targetVariable.name,
+        instanceNode: {
+          id: rowNode.id,
+          name: rowNode.name,
+          type: rowNode.type,
+          pageName: info.pageName,
+          pageId: info.pageId,
+        },
+        viaStyleName: viaStyle?.name,
+        aliasPath,
+        resolvedMode,
+        hidden: info.hidden,
+        locked: info.locked,
+        inDefinition: info.inDefinition,
+        instanceCount: info.instanceCount,
+      });
+    }
+  }
+
+  /**
+   * Records the unbound raw values of a node that equal a target variable's value.
+   * These rows are always per layer, as the layer is what needs to be bound.
+   */
+  function checkUnboundValues(node: SceneNode, layerState: LayerState) {
+    if (unboundTokens.length === 0) {
+      return;
+    }
+
+    for (const match of findUnboundValueMatches(node, unboundTokens, unboundTolerance)) {
+      addLayerRow(unboundRowsByVariable, match.variableId, node, match.property, layerState, {
+        unboundMatch: { modeName: match.modeName },
+      });
+    }
+  }
+
+  /**
+   * Records the target variables that were detached from a node, per layer
+   */
+  function checkFormerBindings(node: SceneNode, layerState: LayerState) {
+    if (!hasDetachedVariables) {
+      return;
+    }
+
+    for (const binding of getDetachedBindings(node)) {
+      const variableId =
+        targetVariableIds.get(binding.variableId) ||
+        targetVariableKeys.get(binding.variableKey);
+      if (variableId) {
+        addLayerRow(formerRowsByVariable, variableId, node, binding.property, layerState, {
+          formerlyBound: true,
+        });
+      }
+    }
+  }
+
+  /**
+   * Adds a per-layer row that is not a current binding, merging properties of the same layer
+   */
+  function addLayerRow(
+    rowsByVariableId: Map<string, Map<string, BoundNodeInfo>>,
+    variableId: string,
+    node: SceneNode,
+    property: string,
+    layerState: LayerState,
+    tag: Pick<BoundNodeInfo, "unboundMatch" | "formerlyBound">
+  ) {
+    const boundNodes = boundNodesByVariable.get(variableId);
+    if (!boundNodes) {
+      return;
+    }
+
+    let rows = rowsByVariableId.get(variableId);
+    if (!rows) {
+      rows = new Map();
+      rowsByVariableId.set(variableId, rows);
+    }
+
+    const existingRow = rows.get(node.id);
+    if (existingRow) {
+      existingRow.boundProperties.push(property);
+      return;
+    }
+
+    const info: BoundNodeInfo = {
+      node,
+      boundProperties: [property],
+      propertyPath: getNodePath(node),
+      pageName: getNodePage(node),
+      pageId: getNodePageId(node),
+      occurrences: 1,
+      ...tag,
+      hidden: layerState.hidden || undefined,
+      locked: layerState.locked || undefined,
+    };
+    rows.set(node.id, info);
+    boundNodes.push(info);
+  }
+
+  /**
+   * Finds the node a bound layer is reported under for the requested granularity,
+   * and the ID of the occurrence it adds to that row
+   */
+  async function getCollapsedRow(node: SceneNode): Promise<{
+    rowNode: SceneNode;
+    occurrenceId: string;
+    inDefinition?: boolean;
+  } | null> {
+    if (granularity === "layer") {
+      return { rowNode: node, occurrenceId: node.id };
+    }
+
+    // Bindings inside a definition are reported on the variant, or on its set
+    if (options.includeComponentDefinitions) {
+      const component = findContainingComponent(node);
+      if (component) {
+        const rowNode =
+          granularity === "componentSet" &&
+          component.parent?.type === "COMPONENT_SET"
+            ? component.parent
+            : component;
+        return { rowNode, occurrenceId: node.id, inDefinition: true };
+      }
+    }
+
+    // Find the top-level instance containing this node
+    // This works whether the node itself is an instance or a child inside an instance
+    const topInstance = findTopLevelInstance(node);
+    if (!topInstance) {
+      return null;
+    }
+
+    if (granularity === "instance") {
+      return { rowNode: topInstance, occurrenceId: node.id };
+    }
+
+    const mainComponent = await topInstance.getMainComponentAsync();
+    if (!mainComponent) {
+      // Instances of missing components are reported on their own
+      return { rowNode: topInstance, occurrenceId: topInstance.id };
+    }
+
+    if (
+      granularity === "componentSet" &&
+      mainComponent.parent?.type === "COMPONENT_SET"
+    ) {
+      return { rowNode: mainComponent.parent, occurrenceId: topInstance.id };
     }
 
-    return true; // Continue processing
+    return { rowNode: mainComponent, occurrenceId: topInstance.id };
   }
+
   /**
    * Get the page name where a node is located
    */
@@ -415,6 +1386,11 @@ export async function findNodesWithBoundVariable(
       currentNode = currentNode.parent;
     }
 
+    // Main components of library instances don't live on a page of this file
+    if ("remote" in node && node.remote) {
+      return "Library";
+    }
+
     return "Unknown Page";
   }
 
@@ -454,107 +1430,350 @@ export async function findNodesWithBoundVariable(
     return path.length > 0 ? path.join(" > ") : node.name || node.type;
   }
 
-  // Start checking from all pages or specific page if pageId is provided
-  const pagesToSearch = pageId
-    ? figma.root.children.filter((page) => page.id === pageId)
-    : figma.root.children;
+  // Every page is loaded when no scope is given
+  const searchRoots =
+    rootNodes || (await loadPageRootNodes(figma.root.children));
 
-  console.log(
-    `🔍 Searching in ${pagesToSearch.length} page(s)${
-      pageId ? ` (filtered by pageId: ${pageId})` : " (all pages)"
-    }`
-  );
+  console.log(`🔍 Searching in ${searchRoots.length} root node(s)`);
 
-  if (pageId && pagesToSearch.length === 0) {
-    console.warn(`⚠️ No page found with ID: ${pageId}`);
-    return boundNodes;
+  if (searchRoots.length === 0) {
+    console.warn("⚠️ Nothing to search in the given scope");
+    return boundNodesByVariable;
   }
 
-  // PHASE 2: Count total nodes for progress tracking
-  function countNodes(node: SceneNode): number {
-    let count = 1;
-    if ("children" in node && node.children) {
-      node.children.forEach((child) => {
-        count += countNodes(child);
-      });
+  // Main components are only scanned as a whole when definitions are included
+  function isScannedDefinition(node: SceneNode): boolean {
+    return options.includeComponentDefinitions === true && node.type === "COMPONENT";
+  }
+
+  /**
+   * Combines the hidden/locked flags of a root node's ancestors
+   */
+  function getAncestorState(node: SceneNode): LayerState {
+    let state: LayerState = { hidden: false, locked: false };
+    let currentNode: BaseNode | null = node.parent;
+    while (currentNode && currentNode.type !== "PAGE" && currentNode.type !== "DOCUMENT") {
+      state = getLayerState(currentNode as SceneNode, state);
+      currentNode = currentNode.parent;
     }
-    return count;
+    return state;
   }
 
-  function countInstanceNodes(node: SceneNode): number {
-    let count = 0;
-    if (node.type === "INSTANCE") {
-      count += countNodes(node);
+  // Roots inside an instance or a scanned definition are checked as a whole,
+  // like the instance or definition itself
+  function isCheckedWhole(root: SceneNode): boolean {
+    return (
+      !instancesOnly ||
+      findTopLevelInstance(root) !== null ||
+      (options.includeComponentDefinitions === true &&
+        findContainingComponent(root) !== null)
+    );
+  }
+
+  /**
+   * Whether an indexed layer references a searched variable or a matching
+   * style, or carries detached bindings to check
+   */
+  function isIndexedCandidate(indexedNode: IndexedNode): boolean {
+    if (indexedNode.detached && hasDetachedVariables) {
+      return true;
     }
-    if ("children" in node && node.children) {
-      node.children.forEach((child) => {
-        count += countInstanceNodes(child);
-      });
+    if (
+      indexedNode.styles.some((styleId) =>
+        styleId === mixedStyleId
+          ? matchingStyles.size > 0
+          : matchingStyles.has(styleId)
+      )
+    ) {
+      return true;
     }
-    return count;
+    return Object.keys(indexedNode.variables).some(
+      (variableId) =>
+        getVariableMatches({ type: "VARIABLE_ALIAS", id: variableId }).length > 0
+    );
   }
 
-  pagesToSearch.forEach((page) => {
-    if (page.type === "PAGE") {
-      page.children.forEach((child) => {
-        totalNodes += instancesOnly ? countInstanceNodes(child) : countNodes(child);
-      });
+  /**
+   * Looks up the indexed layers within the given roots that may use a searched variable
+   */
+  async function findIndexedCandidates(
+    roots: readonly SceneNode[]
+  ): Promise<SceneNode[]> {
+    if (!indexedNodesByPage || roots.length === 0) {
+      return [];
     }
+
+    const rootIds = new Set(roots.map((root) => root.id));
+    const pageIds = new Set(roots.map((root) => getNodePageId(root)));
+    const indexedEntries: Array<[string, IndexedNode]> = [];
+    pageIds.forEach((pageId) => {
+      indexedEntries.push(
+        ...Object.entries((pageId && indexedNodesByPage.get(pageId)) || {})
+      );
+    });
+
+    await loadVariables(
+      indexedEntries.flatMap(([, indexedNode]) =>
+        Object.keys(indexedNode.variables)
+      )
+    );
+
+    const candidates: SceneNode[] = [];
+    for (const [nodeId, indexedNode] of indexedEntries) {
+      if (!isIndexedCandidate(indexedNode)) {
+        continue;
+      }
+      const node = await figma.getNodeByIdAsync(nodeId);
+      if (
+        node &&
+        !node.removed &&
+        node.type !== "PAGE" &&
+        node.type !== "DOCUMENT" &&
+        isWithinRoots(node, rootIds)
+      ) {
+        candidates.push(node);
+      }
+    }
+    return candidates;
+  }
+
+  function isWithinRoots(node: SceneNode, rootIds: ReadonlySet<string>): boolean {
+    let currentNode: BaseNode | null = node;
+    while (currentNode && currentNode.type !== "PAGE") {
+      if (rootIds.has(currentNode.id)) {
+        return true;
+      }
+      currentNode = currentNode.parent;
+    }
+    return false;
+  }
+
+  // Roots on pages with a fresh usage index are not traversed
+  const indexedRoots = searchRoots.filter((root) => {
+    const pageId = getNodePageId(root);
+    return pageId !== null && indexedNodesByPage?.has(pageId) === true;
   });
+  const scannedRoots = searchRoots.filter((root) => !indexedRoots.includes(root));
 
-  console.log(`📊 Total nodes to scan: ${totalNodes}`);
+  if (!lookups.matchingStyles) {
+    lookups.matchingStyles = await findStylesReferencingVariables(
+      getVariableMatches
+    );
+  }
+  matchingStyles = lookups.matchingStyles;
+  matchingStyleIds = new Set(matchingStyles.keys());
+  console.log(`🎨 ${matchingStyles.size} local style(s) reference the searched variables`);
 
-  // PHASE 2: Send initial progress update
-  if (callbacks?.onProgress && totalNodes > 0) {
-    callbacks.onProgress(0, totalNodes, 0);
+  const indexedCandidates = await findIndexedCandidates(indexedRoots);
+  if (indexedRoots.length > 0) {
+    console.log(
+      `🗂️ ${indexedCandidates.length} indexed layer(s) to check in ${indexedRoots.length} root node(s)`
+    );
   }
 
+  console.log(`📊 ${scannedRoots.length} root node(s) to scan`);
+
   const startTime = Date.now();
   let cancelled = false;
+  // Start of the current time slice, and time spent paused so far
+  let sliceStart = startTime;
+  let pausedTime = 0;
 
-  for (const page of pagesToSearch) {
-    if (page.type === "PAGE" && !cancelled) {
-      console.log(`  📄 Searching page: "${page.name}" (${page.id})`);
-      if (instancesOnly) {
-        // When instancesOnly is true, only start from instances
-        const findInstancesInNode = async (
-          node: SceneNode
-        ): Promise<boolean> => {
-          if (node.type === "INSTANCE") {
-            const shouldContinue = await checkNode(node);
-            if (!shouldContinue) {
-              cancelled = true;
-              return false;
-            }
-          }
-          // Continue searching for instances in children
-          if ("children" in node && node.children) {
-            for (const child of node.children) {
-              const shouldContinue = await findInstancesInNode(child);
-              if (!shouldContinue) {
-                return false;
-              }
-            }
-          }
-          return true;
-        };
+  // The size of the scanned roots is not known up front: the total is estimated
+  // from the roots scanned so far as the search goes
+  let completedRoots = 0;
+  let nodesInCompletedRoots = 0;
+  let nodesInCurrentRoot = 0;
 
-        for (const child of page.children) {
-          const shouldContinue = await findInstancesInNode(child);
-          if (!shouldContinue) {
-            cancelled = true;
-            break;
-          }
+  /**
+   * Estimates how many nodes the search visits in total: indexed layers are
+   * known, roots not scanned yet are assumed as large as the average scanned one
+   */
+  function estimateTotalNodes(): number {
+    const stackSize = traversal.nodeStack.length;
+    const averageRootSize =
+      completedRoots > 0
+        ? nodesInCompletedRoots / completedRoots
+        : Math.max(1, nodesInCurrentRoot + stackSize);
+    const rootInProgress = nodesInCurrentRoot > 0 || stackSize > 0;
+    const remainingRoots =
+      scannedRoots.length - completedRoots - (rootInProgress ? 1 : 0);
+    const currentRootSize = rootInProgress
+      ? Math.max(nodesInCurrentRoot + stackSize, averageRootSize)
+      : 0;
+
+    return Math.round(
+      indexedCandidates.length +
+        nodesInCompletedRoots +
+        currentRootSize +
+        Math.max(0, remainingRoots) * averageRootSize
+    );
+  }
+
+  /**
+   * Reports progress with the scan speed and the estimated time remaining
+   */
+  function reportProgress(finished: boolean = false) {
+    if (!callbacks?.onProgress) {
+      return;
+    }
+    // Until the search ends, at least one node is always left
+    const total = finished
+      ? nodesProcessed
+      : Math.max(estimateTotalNodes(), nodesProcessed + 1);
+    const activeSeconds = (Date.now() - startTime - pausedTime) / 1000;
+    const nodesPerSecond =
+      activeSeconds > 0 ? Math.round(nodesProcessed / activeSeconds) : 0;
+
+    callbacks.onProgress(nodesProcessed, total, boundNodesCount, {
+      nodesPerSecond,
+      secondsRemaining: finished
+        ? 0
+        : nodesPerSecond > 0
+        ? Math.ceil((total - nodesProcessed) / nodesPerSecond)
+        : null,
+    });
+  }
+
+  /**
+   * Called before each node: once the time slice is used up, reports progress
+   * and yields to the UI thread, then waits while the search is paused
+   * @returns Whether the search should go on, false once it is cancelled
+   */
+  async function shouldContinue(): Promise<boolean> {
+    if (Date.now() - sliceStart >= timeSliceMs) {
+      reportProgress();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      sliceStart = Date.now();
+    }
+    if (callbacks?.waitWhilePaused) {
+      const pauseStart = Date.now();
+      await callbacks.waitWhilePaused();
+      pausedTime += Date.now() - pauseStart;
+      sliceStart += Date.now() - pauseStart;
+    }
+    return !callbacks?.shouldCancel?.();
+  }
+
+  // The traversal state: the page and root being scanned and the nodes still to
+  // visit under that root, deepest last. It survives pauses, so a resumed search
+  // carries on where it stopped.
+  const rootsByPage: SceneNode[][] = [];
+  scannedRoots.forEach((root, index) => {
+    if (
+      index > 0 &&
+      getNodePageId(root) === getNodePageId(scannedRoots[index - 1])
+    ) {
+      rootsByPage[rootsByPage.length - 1].push(root);
+    } else {
+      rootsByPage.push([root]);
+    }
+  });
+  const traversal: {
+    pageIndex: number;
+    rootIndex: number;
+    nodeStack: TraversalEntry[];
+  } = {
+    pageIndex: 0,
+    rootIndex: 0,
+    nodeStack: [],
+  };
+
+  // PHASE 2: Send initial progress update
+  reportProgress();
+
+  // Indexed layers are checked on their own; their children are indexed separately
+  for (const node of indexedCandidates) {
+    if (!(await shouldContinue())) {
+      cancelled = true;
+      break;
+    }
+    nodesProcessed++;
+    // Layers deleted while the search was paused are skipped
+    if (!node.removed) {
+      await checkNode(node, getAncestorState(node));
+    }
+  }
+
+  /**
+   * Queues the children of a node so they are visited in document order
+   */
+  function pushChildren(node: SceneNode, layerState: LayerState, checkWhole: boolean) {
+    if (!includeChildren || !("children" in node) || !node.children) {
+      return;
+    }
+    for (let index = node.children.length - 1; index >= 0; index--) {
+      traversal.nodeStack.push({
+        node: node.children[index],
+        parentState: layerState,
+        checkWhole,
+      });
+    }
+  }
+
+  for (
+    ;
+    !cancelled && traversal.pageIndex < rootsByPage.length;
+    traversal.pageIndex++
+  ) {
+    const pageRoots = rootsByPage[traversal.pageIndex];
+    for (
+      traversal.rootIndex = 0;
+      !cancelled && traversal.rootIndex < pageRoots.length;
+      traversal.rootIndex++
+    ) {
+      const root = pageRoots[traversal.rootIndex];
+      traversal.nodeStack = [
+        {
+          node: root,
+          parentState: getAncestorState(root),
+          checkWhole: !includeChildren || isCheckedWhole(root),
+        },
+      ];
+      nodesInCurrentRoot = 0;
+
+      while (traversal.nodeStack.length > 0) {
+        if (!(await shouldContinue())) {
+          cancelled = true;
+          break;
         }
-      } else {
-        // Normal behavior - check all nodes
-        for (const child of page.children) {
-          const shouldContinue = await checkNode(child);
-          if (!shouldContinue) {
-            cancelled = true;
-            break;
+
+        const { node, parentState, checkWhole } =
+          traversal.nodeStack.pop() as TraversalEntry;
+        if (node.removed) {
+          continue;
+        }
+        nodesProcessed++;
+        nodesInCurrentRoot++;
+
+        // When instancesOnly is true, bindings are only checked from instances
+        // (and scanned definitions) down; checkNode covers nested instances
+        if (checkWhole || node.type === "INSTANCE" || isScannedDefinition(node)) {
+          const layerState = await checkNode(node, parentState);
+          if (layerState) {
+            pushChildren(node, layerState, true);
           }
+          continue;
+        }
+
+        // Hidden or locked containers hide or lock the instances inside them
+        const layerState = getLayerState(node, parentState);
+        if (isExcluded(layerState)) {
+          continue;
         }
+
+        // Raw values are compared on every layer, not only inside instances
+        checkUnboundValues(node, layerState);
+        checkFormerBindings(node, layerState);
+
+        // Continue searching for instances in children
+        pushChildren(node, layerState, false);
+      }
+
+      if (!cancelled) {
+        completedRoots++;
+        nodesInCompletedRoots += nodesInCurrentRoot;
+        nodesInCurrentRoot = 0;
       }
     }
   }
@@ -563,44 +1782,77 @@ export async function findNodesWithBoundVariable(
   const searchTime = endTime - startTime;
 
   // PHASE 2: Send final progress update
-  if (callbacks?.onProgress && totalNodes > 0 && !cancelled) {
-    callbacks.onProgress(totalNodes, totalNodes, boundNodes.length);
+  if (!cancelled && nodesProcessed > 0) {
+    reportProgress(true);
   }
 
   if (cancelled) {
     console.log(
-      `⚠️ Search cancelled by user after ${searchTime}ms. Found ${boundNodes.length} nodes so far.`
+      `⚠️ Search cancelled by user after ${searchTime}ms. Found ${boundNodesCount} nodes so far.`
     );
   } else {
     console.log(
-      `✅ Search completed in ${searchTime}ms. Found ${boundNodes.length} nodes.`
+      `✅ Search completed in ${searchTime}ms (${nodesProcessed} nodes scanned). Found ${boundNodesCount} nodes for ${variables.length} variables.`
     );
   }
 
   console.log(
-    `   📊 Performance: Cached ${variableCache.size} variables, ${variableKeyCache.size} keys, ${targetVariableIds.size} target IDs, ${processedInstanceNames.size} unique components`
+    `   📊 Performance: Cached ${variableKeyCache.size} keys, ${targetVariableIds.size} target IDs`
   );
 
-  return boundNodes;
+  return boundNodesByVariable;
+}
+
+/**
+ * Checks the given layers on their own, without their children, e.g. to re-check
+ * the layers that changed since a search
+ * @param variables - The variables to search for
+ * @param granularity - How results are collapsed: per layer, top-level instance, main component or component set
+ * @param layers - The layers to check
+ * @param options - Optional scan options
+ * @param lookups - Styles and instance counts shared by the checks of one search
+ * @returns Map from variable ID to the rows the layers are reported in
+ */
+export async function findBindingsOnLayers(
+  variables: Variable[],
+  granularity: ResultGranularity,
+  layers: readonly SceneNode[],
+  options: ScanOptions = {},
+  lookups?: SearchLookups
+): Promise<Map<string, BoundNodeInfo[]>> {
+  return findNodesWithBoundVariables(variables, granularity, {
+    rootNodes: layers,
+    scanOptions: options,
+    includeChildren: false,
+    lookups,
+  });
 }
 
 /**
  * Helper function to get a summary of where a variable is used
  * @param variable - The variable to analyze
- * @param instancesOnly - If true, only search within instances
+ * @param granularity - How results are collapsed before counting
+ * @param rootNodes - Optional layers to limit the search to, all pages by default
  * @returns Object with usage statistics and node list
  */
 export async function getVariableUsageSummary(
   variable: Variable,
-  instancesOnly: boolean = false,
-  pageId?: string | null
+  granularity: ResultGranularity = "layer",
+  rootNodes?: readonly SceneNode[]
 ) {
-  const boundNodes = await findNodesWithBoundVariable(
-    variable,
-    instancesOnly,
-    pageId
-  );
+  const boundNodes = await findNodesWithBoundVariable(variable, granularity, {
+    rootNodes,
+  });
+
+  return summarizeBoundNodes(boundNodes);
+}
 
+/**
+ * Builds usage statistics from the bound nodes of a variable, without traversing the document
+ * @param boundNodes - The bound nodes found for the variable
+ * @returns Object with usage statistics and node list
+ */
+export function summarizeBoundNodes(boundNodes: BoundNodeInfo[]) {
   const summary = {
     totalNodes: boundNodes.length,
     nodesByType: {} as Record<string, number>,
@@ -623,13 +1875,45 @@ export async function getVariableUsageSummary(
   return summary;
 }
 
+/**
+ * Converts a found node into a row of the results panel
+ */
+export function toResultRow(
+  variable: Variable,
+  info: BoundNodeInfo
+): SearchResultRow {
+  return {
+    variableId: variable.id,
+    variableName: variable.name,
+    instanceNode: {
+      id: info.node.id,
+      name: info.node.name,
+      type: info.node.type,
+      pageName: info.pageName,
+      pageId: info.pageId,
+    },
+    viaStyleName: info.viaStyle?.name,
+    aliasPath: info.aliasPath,
+    resolvedMode: info.resolvedMode,
+    hidden: info.hidden,
+    locked: info.locked,
+    inDefinition: info.inDefinition,
+    instanceCount: info.instanceCount,
+    boundProperties: info.boundProperties,
+    propertyPath: info.propertyPath,
+    occurrences: info.occurrences,
+    unboundMatch: info.unboundMatch,
+    formerlyBound: info.formerlyBound,
+  };
+}
+
 /**
  * Example usage:
  *
  * // Get a specific variable by ID
- * const variable = figma.variables.getVariableById('your-variable-id');
+ * const variable = await figma.variables.getVariableByIdAsync('your-variable-id');
  * if (variable) {
- *   const boundNodes = findNodesWithBoundVariable(variable);
+ *   const boundNodes = await findNodesWithBoundVariable(variable);
  *   console.log(`Variable "${variable.name}" is used in ${boundNodes.length} nodes:`);
  *
  *   boundNodes.forEach(({ node, boundProperties, propertyPath }) => {
@@ -638,16 +1922,17 @@ export async function getVariableUsageSummary(
  *   });
  *
  *   // Or get a summary
- *   const summary = getVariableUsageSummary(variable);
+ *   const summary = await getVariableUsageSummary(variable);
  *   console.log('Usage summary:', summary);
  * }
  *
- * // Find all color variables and their usage
- * const allVariables = figma.variables.getLocalVariables();
+ * // Find all color variables and their usage in a single traversal
+ * const allVariables = await figma.variables.getLocalVariablesAsync();
  * const colorVariables = allVariables.filter(v => v.resolvedType === 'COLOR');
+ * const boundNodesByVariable = await findNodesWithBoundVariables(colorVariables);
  *
  * colorVariables.forEach(variable => {
- *   const usage = getVariableUsageSummary(variable);
+ *   const usage = summarizeBoundNodes(boundNodesByVariable.get(variable.id) || []);
  *   if (usage.totalNodes > 0) {
  *     console.log(`${variable.name}: used in ${usage.totalNodes} nodes`);
  *   }
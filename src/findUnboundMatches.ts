@@ -0,0 +1,218 @@
+/**
+ * Finds raw (unbound) paint and layout values that equal a variable's value
+ */
+
+import { resolveVariableModeValue } from "./resolveVariableValue";
+import { RGBA } from "./types";
+
+/**
+ * The values a variable takes in each mode, to compare raw values against
+ */
+export interface TokenValues {
+  variableId: string;
+  colors: Array<{ modeName: string; value: RGBA }>;
+  numbers: Array<{ modeName: string; value: number }>;
+}
+
+export interface UnboundValueMatch {
+  variableId: string;
+  property: string;
+  modeName: string;
+}
+
+export interface MatchTolerance {
+  /**
+   * Maximum difference per color channel, in 0-255 units
+   */
+  color: number;
+  /**
+   * Maximum absolute difference for numbers
+   */
+  number: number;
+}
+
+/**
+ * Numeric fields compared against FLOAT variables: padding, spacing and radii
+ */
+const numericFields = [
+  "paddingLeft",
+  "paddingRight",
+  "paddingTop",
+  "paddingBottom",
+  "itemSpacing",
+  "counterAxisSpacing",
+  "topLeftRadius",
+  "topRightRadius",
+  "bottomLeftRadius",
+  "bottomRightRadius",
+] as const;
+
+/**
+ * Resolves the value of a color or number variable in every mode of its collection
+ */
+export function getTokenValues(
+  variable: Variable,
+  getCollection: (collectionId: string) => VariableCollection | null
+): TokenValues {
+  const tokenValues: TokenValues = {
+    variableId: variable.id,
+    colors: [],
+    numbers: [],
+  };
+
+  const collection = getCollection(variable.variableCollectionId);
+  if (!collection) {
+    return tokenValues;
+  }
+
+  for (const mode of collection.modes) {
+    const value = resolveVariableModeValue(variable, mode.modeId);
+    if (value.type === "COLOR") {
+      tokenValues.colors.push({ modeName: mode.name, value: value.value });
+    } else if (value.type === "FLOAT") {
+      tokenValues.numbers.push({ modeName: mode.name, value: value.value });
+    }
+  }
+
+  return tokenValues;
+}
+
+/**
+ * Compares the unbound solid fills, strokes, effect colors, padding, spacing and
+ * radii of a node against the given variable values
+ * @returns One match per variable and property whose raw value is within tolerance
+ */
+export function findUnboundValueMatches(
+  node: SceneNode,
+  tokens: TokenValues[],
+  tolerance: MatchTolerance
+): UnboundValueMatch[] {
+  const matches: UnboundValueMatch[] = [];
+
+  const matchColor = (color: RGBA, property: string) => {
+    for (const token of tokens) {
+      const match = token.colors.find(({ value }) =>
+        colorsMatch(value, color, tolerance.color)
+      );
+      if (match) {
+        matches.push({
+          variableId: token.variableId,
+          property,
+          modeName: match.modeName,
+        });
+      }
+    }
+  };
+
+  const matchNumber = (value: number, property: string) => {
+    // Zero is the default for all of these fields, so it is never reported
+    if (value === 0) {
+      return;
+    }
+    for (const token of tokens) {
+      const match = token.numbers.find(
+        (number) => Math.abs(number.value - value) <= tolerance.number
+      );
+      if (match) {
+        matches.push({
+          variableId: token.variableId,
+          property,
+          modeName: match.modeName,
+        });
+      }
+    }
+  };
+
+  // Paints and effects that come from a style are not raw values
+  const paintLists: Array<{ property: "fills" | "strokes"; styleField: string }> = [
+    { property: "fills", styleField: "fillStyleId" },
+    { property: "strokes", styleField: "strokeStyleId" },
+  ];
+  for (const { property, styleField } of paintLists) {
+    if (!(property in node) || usesStyle(node, styleField)) {
+      continue;
+    }
+    const paints = (node as GeometryMixin)[property];
+    if (!Array.isArray(paints)) {
+      continue;
+    }
+    paints.forEach((paint: Paint, index: number) => {
+      if (
+        paint.type === "SOLID" &&
+        paint.visible !== false &&
+        !paint.boundVariables?.color
+      ) {
+        matchColor(
+          { ...paint.color, a: paint.opacity ?? 1 },
+          `${property}[${index}].color`
+        );
+      }
+    });
+  }
+
+  if ("effects" in node && !usesStyle(node, "effectStyleId")) {
+    node.effects.forEach((effect, index) => {
+      if (
+        (effect.type === "DROP_SHADOW" || effect.type === "INNER_SHADOW") &&
+        effect.visible &&
+        !effect.boundVariables?.color
+      ) {
+        matchColor(effect.color, `effects[${index}].color`);
+      }
+    });
+  }
+
+  const boundVariables =
+    "boundVariables" in node ? node.boundVariables || {} : {};
+  const hasAutoLayout = "layoutMode" in node && node.layoutMode !== "NONE";
+
+  // A uniform radius is reported once rather than once per corner; corners
+  // that are bound or differ are compared one by one
+  const cornerFields = numericFields.filter((field) => field.endsWith("Radius"));
+  const hasUniformRadius =
+    "cornerRadius" in node &&
+    node.cornerRadius !== figma.mixed &&
+    cornerFields.every((field) => !(field in boundVariables));
+  if (hasUniformRadius) {
+    matchNumber(node.cornerRadius as number, "cornerRadius");
+  }
+
+  for (const field of numericFields) {
+    if (!(field in node) || field in boundVariables) {
+      continue;
+    }
+    if (hasUniformRadius && field.endsWith("Radius")) {
+      continue;
+    }
+    // Padding and spacing only apply to auto layout frames
+    if (!field.endsWith("Radius") && !hasAutoLayout) {
+      continue;
+    }
+    const value = (node as unknown as Record<string, unknown>)[field];
+    if (typeof value === "number") {
+      matchNumber(value, field);
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Whether a node has a style applied through the given style field
+ */
+function usesStyle(node: SceneNode, styleField: string): boolean {
+  const styleId = (node as unknown as Record<string, unknown>)[styleField];
+  return typeof styleId === "string" && styleId !== "";
+}
+
+/**
+ * Compares two colors channel by channel, in 0-255 units
+ */
+function colorsMatch(a: RGBA, b: RGBA, tolerance: number): boolean {
+  return (
+    Math.abs(a.r - b.r) * 255 <= tolerance &&
+    Math.abs(a.g - b.g) * 255 <= tolerance &&
+    Math.abs(a.b - b.b) * 255 <= tolerance &&
+    Math.abs(a.a - b.a) * 255 <= tolerance
+  );
+}
@@ -0,0 +1,38 @@
+import { RGBA, VariableModeValue } from "./types";
+
+/**
+ * Formats a resolved value as a short human readable string
+ */
+export function formatVariableModeValue(value: VariableModeValue): string {
+  switch (value.type) {
+    case "COLOR":
+      return rgbaToHex(value.value);
+    case "FLOAT":
+      return formatNumber(value.value);
+    case "STRING":
+      return `"${value.value}"`;
+    case "BOOLEAN":
+      return value.value ? "On" : "Off";
+    case "UNRESOLVED":
+      return value.reason;
+  }
+}
+
+/**
+ * Converts an RGBA color to an uppercase hex string, including alpha when not opaque
+ */
+export function rgbaToHex(color: RGBA): string {
+  const toHex = (n: number) => {
+    const hex = Math.round(n * 255).toString(16);
+    return hex.length === 1 ? "0" + hex : hex;
+  };
+  const alpha = color.a < 1 ? toHex(color.a) : "";
+  return `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}${alpha}`.toUpperCase();
+}
+
+/**
+ * Formats a number with at most two decimals, dropping trailing zeros
+ */
+export function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
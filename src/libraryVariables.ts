@@ -0,0 +1,181 @@
+/**
+ * Finds variables that come from libraries: collections available through the
+ * team library, and remote variables already imported and used in this file
+ */
+
+import { VariableCollection } from "./types";
+import { getCollection, getLocalVariables, getVariable } from "./variableCache";
+
+/**
+ * Prefix of the IDs offered for library collections and library variables not
+ * in this file, which are identified by their key rather than by a document ID
+ */
+const libraryPrefix = "library:";
+
+/**
+ * Builds the ID a library collection is offered under in the collection dropdown
+ */
+export function getLibraryCollectionId(collectionKey: string): string {
+  return `${libraryPrefix}${collectionKey}`;
+}
+
+/**
+ * Builds the ID a library variable that this file does not use is listed under
+ */
+export function getLibraryVariableId(variableKey: string): string {
+  return `${libraryPrefix}${variableKey}`;
+}
+
+/**
+ * Reads the collection key back from a library collection ID, or null for a local one
+ */
+export function parseLibraryCollectionId(collectionId: string): string | null {
+  return collectionId.startsWith(libraryPrefix)
+    ? collectionId.slice(libraryPrefix.length)
+    : null;
+}
+
+/**
+ * Collects the remote variables this file uses: bound on any layer of the given
+ * pages, or aliased by a local variable
+ */
+export async function findRemoteVariables(
+  pages: readonly PageNode[]
+): Promise<Variable[]> {
+  const variableIds = new Set<string>();
+
+  const addAliases = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(addAliases);
+    } else if (
+      value &&
+      typeof value === "object" &&
+      (value as VariableAlias).type === "VARIABLE_ALIAS"
+    ) {
+      variableIds.add((value as VariableAlias).id);
+    } else if (value && typeof value === "object") {
+      // Text ranges and component properties nest their aliases one level deeper
+      Object.values(value).forEach(addAliases);
+    }
+  };
+
+  for (const page of pages) {
+    await page.loadAsync();
+    page.findAll((node) => {
+      if ("boundVariables" in node && node.boundVariables) {
+        addAliases(node.boundVariables);
+      }
+      return false;
+    });
+  }
+
+  for (const variable of await getLocalVariables()) {
+    addAliases(variable.valuesByMode);
+  }
+
+  const variables = await Promise.all(Array.from(variableIds).map(getVariable));
+  const remoteVariables = variables.filter(
+    (variable): variable is Variable => variable !== null && variable.remote
+  );
+
+  console.log(`📚 Found ${remoteVariables.length} remote variables in use`);
+  return remoteVariables;
+}
+
+/**
+ * Lists the library collections offered in the collection dropdown: every
+ * collection of the enabled team libraries, plus the collections of remote
+ * variables in use (which may come from libraries that are no longer enabled)
+ */
+export async function getLibraryCollections(
+  remoteVariables: Variable[]
+): Promise<VariableCollection[]> {
+  const collectionsByKey = new Map<string, VariableCollection>();
+
+  try {
+    const libraryCollections =
+      await figma.teamLibrary.getAvailableLibraryVariableCollectionsAsync();
+    libraryCollections.forEach((collection) => {
+      collectionsByKey.set(collection.key, {
+        id: getLibraryCollectionId(collection.key),
+        name: collection.name,
+        isLocal: false,
+        libraryName: collection.libraryName,
+      });
+    });
+  } catch (error) {
+    console.warn("Team library collections are not available:", error);
+  }
+
+  const checkedCollectionIds = new Set<string>();
+  for (const variable of remoteVariables) {
+    if (checkedCollectionIds.has(variable.variableCollectionId)) {
+      continue;
+    }
+    checkedCollectionIds.add(variable.variableCollectionId);
+    const collection = await getCollection(variable.variableCollectionId);
+    if (collection && !collectionsByKey.has(collection.key)) {
+      collectionsByKey.set(collection.key, {
+        id: getLibraryCollectionId(collection.key),
+        name: collection.name,
+        isLocal: false,
+      });
+    }
+  }
+
+  return Array.from(collectionsByKey.values()).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Variables of a library collection: the ones this file uses, which can be
+ * searched, and the others, listed from the library without importing them
+ */
+export interface LibraryCollectionVariables {
+  used: Variable[];
+  unused: LibraryVariable[];
+}
+
+/**
+ * Lists the variables of a library collection. Remote variables in use are
+ * matched to the collection, and to the team library listing, by key; nothing
+ * is imported into the file.
+ */
+export async function getLibraryCollectionVariables(
+  collectionKey: string,
+  remoteVariables: Variable[]
+): Promise<LibraryCollectionVariables> {
+  const usedByKey = new Map<string, Variable>();
+  const remoteByKey = new Map(
+    remoteVariables.map((variable) => [variable.key, variable])
+  );
+
+  for (const variable of remoteVariables) {
+    const collection = await getCollection(variable.variableCollectionId);
+    if (collection && collection.key === collectionKey) {
+      usedByKey.set(variable.key, variable);
+    }
+  }
+
+  const unused: LibraryVariable[] = [];
+  try {
+    const libraryVariables =
+      await figma.teamLibrary.getVariablesInLibraryCollectionAsync(collectionKey);
+    libraryVariables.forEach((libraryVariable) => {
+      const variable = remoteByKey.get(libraryVariable.key);
+      if (variable) {
+        usedByKey.set(libraryVariable.key, variable);
+      } else if (!usedByKey.has(libraryVariable.key)) {
+        unused.push(libraryVariable);
+      }
+    });
+  } catch (error) {
+    console.warn(
+      `Library collection ${collectionKey} is not available, listing used variables only:`,
+      error
+    );
+  }
+
+  return { used: Array.from(usedByKey.values()), unused };
+}
@@ -3,30 +3,160 @@ import { emit, once, on, showUI } from "@create-figma-plugin/utilities";
 import {
   CloseHandler,
   CreateRectanglesHandler,
-  GetColorVariablesHandler,
+  GetVariablesHandler,
   FindBoundNodesHandler,
   GetCollectionsHandler,
   GetPagesHandler,
+  GetScopeContainersHandler,
+  SavePageSelectionHandler,
+  AuditUnusedHandler,
+  ReplaceVariableHandler,
+  ReplacementReport,
+  DetachVariableHandler,
+  SetDeprecationHandler,
+  ScanDeprecatedHandler,
+  DetachReport,
   CancelSearchHandler,
-  ColorVariable,
+  PauseSearchHandler,
+  ResumeSearchHandler,
+  VariableInfo,
+  VariableType,
   VariableCollection,
   Page,
+  ResultGranularity,
+  ScanOptions,
+  SearchScope,
+  SetWatchModeHandler,
+  FocusNodeHandler,
+  SelectResultsHandler,
+  FindLibraryVariablesHandler,
 } from "./types";
 import {
-  findNodesWithBoundVariable,
-  getVariableUsageSummary,
+  findNodesWithBoundVariables,
+  summarizeBoundNodes,
+  toResultRow,
 } from "./findBoundVariables";
+import { auditUnusedVariables } from "./auditUnusedVariables";
 import {
   createResultTable,
+  createUnusedVariablesTable,
   loadInterFont,
+  markResultTableOutOfDate,
   resetFonts,
 } from "./drawResultTable";
+import {
+  applyReplacement,
+  countBindingsByProperty,
+  loadFontsForBindings,
+  planReplacement,
+} from "./replaceVariable";
+import {
+  findDeprecatedVariables,
+  getDeprecationInfo,
+  getDeprecationRegistry,
+  setDeprecationEntry,
+} from "./deprecationRegistry";
+import { detachBindings } from "./detachVariable";
+import {
+  findRemoteVariables,
+  getLibraryCollections,
+  getLibraryCollectionVariables,
+  getLibraryVariableId,
+  parseLibraryCollectionId,
+} from "./libraryVariables";
+import { resolveVariableModeValue } from "./resolveVariableValue";
+import { findScopeContainers, resolveSearchScope } from "./searchScope";
+import {
+  getPagesOfNodes,
+  getUsageIndex,
+  saveUsageIndex,
+} from "./usageIndex";
+import {
+  clearWatchedSearch,
+  setWatchedSearch,
+  startWatching,
+  stopWatching,
+} from "./watchResults";
+import {
+  clearVariableCache,
+  getCachedCollection,
+  getLocalCollections,
+  getLocalVariables,
+  getVariable,
+  loadVariables,
+} from "./variableCache";
+
+const supportedVariableTypes: VariableType[] = [
+  "COLOR",
+  "FLOAT",
+  "STRING",
+  "BOOLEAN",
+];
+
+const pageSelectionKey = "searchPageIds";
+
+/**
+ * Reads the page selection saved on this file, if any
+ */
+function getSavedPageIds(): string[] | null {
+  const saved = figma.root.getPluginData(pageSelectionKey);
+  if (!saved) {
+    return null;
+  }
+  try {
+    const pageIds = JSON.parse(saved);
+    return Array.isArray(pageIds) ? pageIds : null;
+  } catch (error) {
+    console.warn("Ignoring invalid saved page selection:", error);
+    return null;
+  }
+}
+
+/**
+ * Returns the page a node is on, or null for a node outside the document
+ */
+function getPageOf(node: BaseNode): PageNode | null {
+  let currentNode: BaseNode | null = node;
+  while (currentNode && currentNode.type !== "PAGE") {
+    currentNode = currentNode.parent;
+  }
+  return currentNode;
+}
+
+function isSupportedVariableType(
+  resolvedType: VariableResolvedDataType
+): resolvedType is VariableType {
+  return (supportedVariableTypes as string[]).includes(resolvedType);
+}
 
 export default function () {
   // PHASE 2: Search cancellation flag
   let searchCancelled = false;
 
-  // No custom navigation needed - using Figma's native hyperlinks only
+  // A paused search waits between two nodes, keeping its traversal position,
+  // until it is resumed or cancelled
+  let searchPaused = false;
+  let resumeSearch: (() => void) | null = null;
+
+  function waitWhilePaused(): Promise<void> {
+    if (!searchPaused) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      resumeSearch = resolve;
+    });
+  }
+
+  function releasePausedSearch() {
+    searchPaused = false;
+    if (resumeSearch) {
+      resumeSearch();
+      resumeSearch = null;
+    }
+  }
+
+  // The result table links to layers with Figma's native hyperlinks; the
+  // results panel focuses them through FOCUS_NODE
 
   once<CreateRectanglesHandler>("CREATE_RECTANGLES", function (count: number) {
     const nodes: Array<SceneNode> = [];
@@ -47,22 +177,73 @@ export default function () {
     figma.closePlugin();
   });
 
-  on<GetCollectionsHandler>("GET_COLLECTIONS", function () {
+  // Remote variables in use and library names by collection key, refreshed with
+  // the collection list
+  let remoteVariables: Variable[] = [];
+  const libraryNamesByKey = new Map<string, string>();
+
+  /**
+   * Lists the local collections followed by the library collections, remembering
+   * the remote variables in use found on the given pages
+   */
+  async function listCollections(
+    pages: readonly PageNode[]
+  ): Promise<VariableCollection[]> {
+    const localCollections = await getLocalCollections();
+    const collections: VariableCollection[] = localCollections.map(
+      (collection) => ({
+        id: collection.id,
+        name: collection.name,
+        isLocal: true,
+      })
+    );
+
+    remoteVariables = await findRemoteVariables(pages);
+    const libraryCollections = await getLibraryCollections(remoteVariables);
+    libraryCollections.forEach((collection) => {
+      const collectionKey = parseLibraryCollectionId(collection.id);
+      if (collectionKey && collection.libraryName) {
+        libraryNamesByKey.set(collectionKey, collection.libraryName);
+      }
+    });
+    collections.push(...libraryCollections);
+
+    return collections;
+  }
+
+  on<GetCollectionsHandler>("GET_COLLECTIONS", async function () {
+    clearVariableCache();
     try {
-      const localCollections = figma.variables.getLocalVariableCollections();
-      const collections: VariableCollection[] = localCollections.map(
-        (collection) => ({
-          id: collection.id,
-          name: collection.name,
-        })
-      );
-      emit("COLLECTIONS_RESULT", collections);
+      // Only the current page is searched for remote variables; other pages are
+      // loaded when asked to through FIND_LIBRARY_VARIABLES
+      emit("COLLECTIONS_RESULT", await listCollections([figma.currentPage]));
     } catch (error) {
       console.error("Error fetching collections:", error);
       emit("COLLECTIONS_RESULT", []);
     }
   });
 
+  on<FindLibraryVariablesHandler>(
+    "FIND_LIBRARY_VARIABLES",
+    async function (options: { scope: SearchScope }) {
+      try {
+        const { rootNodes } = await resolveSearchScope(options.scope);
+        const pages = getPagesOfNodes(rootNodes);
+        if (!pages.some((page) => page.id === figma.currentPage.id)) {
+          pages.unshift(figma.currentPage);
+        }
+        emit("COLLECTIONS_RESULT", await listCollections(pages));
+        figma.notify(
+          `Found ${remoteVariables.length} library variable${
+            remoteVariables.length !== 1 ? "s" : ""
+          } in use`
+        );
+      } catch (error) {
+        console.error("Error finding library variables:", error);
+      }
+    }
+  );
+
   on<GetPagesHandler>("GET_PAGES", function () {
     try {
       const allPages = figma.root.children;
@@ -71,183 +252,491 @@ export default function () {
         name: page.name,
       }));
       // PHASE 1 OPTIMIZATION: Send current page ID for default selection
-      emit("PAGES_RESULT", { pages, currentPageId: figma.currentPage.id });
+      emit("PAGES_RESULT", {
+        pages,
+        currentPageId: figma.currentPage.id,
+        savedPageIds: getSavedPageIds(),
+      });
     } catch (error) {
       console.error("Error fetching pages:", error);
-      emit("PAGES_RESULT", { pages: [], currentPageId: null });
+      emit("PAGES_RESULT", { pages: [], currentPageId: null, savedPageIds: null });
+    }
+  });
+
+  // The page selection is stored on the document so it is remembered per file
+  on<SavePageSelectionHandler>("SAVE_PAGE_SELECTION", function (pageIds) {
+    figma.root.setPluginData(pageSelectionKey, JSON.stringify(pageIds));
+  });
+
+  on<GetScopeContainersHandler>("GET_SCOPE_CONTAINERS", async function () {
+    try {
+      emit("SCOPE_CONTAINERS_RESULT", await findScopeContainers());
+    } catch (error) {
+      console.error("Error fetching frames and sections:", error);
+      emit("SCOPE_CONTAINERS_RESULT", []);
     }
   });
 
-  const collectionCache = new Map<
-    string,
-    { defaultModeId: string; modes: { id: string; name: string }[] }
-  >();
+  // Keep the selection scope option in sync with the canvas
+  figma.on("selectionchange", function () {
+    emit("SELECTION_CHANGED", { count: figma.currentPage.selection.length });
+  });
+
+  // Index updates are saved in batches; write the pending ones before closing
+  figma.on("close", saveUsageIndex);
 
-  on<GetColorVariablesHandler>(
-    "GET_COLOR_VARIABLES",
-    function (options: { collectionId: string | null }) {
-      const { collectionId } = options;
+  on<GetVariablesHandler>(
+    "GET_VARIABLES",
+    async function (options: {
+      collectionId: string | null;
+      resolvedTypes: VariableType[] | null;
+    }) {
+      const { collectionId, resolvedTypes } = options;
+      clearVariableCache();
       try {
-        // Get all variables including from remote collections
-        const localVariableCollections =
-          figma.variables.getLocalVariableCollections();
-        const colorVariables: ColorVariable[] = [];
+        const variables: VariableInfo[] = [];
         const processedVariableIds = new Set<string>();
+        const deprecationRegistry = getDeprecationRegistry();
+
+        // Local variables, plus the remote ones in use or from the chosen library
+        const libraryCollectionKey = collectionId
+          ? parseLibraryCollectionId(collectionId)
+          : null;
+        const libraryVariables = libraryCollectionKey
+          ? await getLibraryCollectionVariables(
+              libraryCollectionKey,
+              remoteVariables
+            )
+          : null;
+        const candidateVariables = libraryVariables
+          ? libraryVariables.used
+          : collectionId
+          ? await getLocalVariables()
+          : [...(await getLocalVariables()), ...remoteVariables];
+        // Values are resolved from the variable cache, aliases included
+        await loadVariables(candidateVariables.map((variable) => variable.id));
 
-        // Helper function to resolve variable alias
-        const resolveVariableValue = (
-          value: any,
-          modeId: string,
-          depth: number = 0
-        ): RGBA | string => {
-          if (depth > 10) {
-            return "Circular reference";
+        for (const variable of candidateVariables) {
+          const resolvedType = variable.resolvedType;
+          if (processedVariableIds.has(variable.id)) {
+            continue;
           }
-          
-          if (typeof value === "object" && value !== null && "r" in value) {
-            return value as RGBA;
-          } else if (
-            typeof value === "object" &&
-            value !== null &&
-            "type" in value &&
-            value.type === "VARIABLE_ALIAS"
-          ) {
-            try {
-              const referencedVariable = figma.variables.getVariableById(
-                value.id
-              );
-              if (
-                referencedVariable &&
-                referencedVariable.resolvedType === "COLOR"
-              ) {
-                let referencedValue = referencedVariable.valuesByMode[modeId];
-                
-                if (!referencedValue) {
-                  const collection = figma.variables.getVariableCollectionById(
-                    referencedVariable.variableCollectionId
-                  );
-                  if (collection) {
-                    const defaultModeId = collection.defaultModeId;
-                    referencedValue = referencedVariable.valuesByMode[defaultModeId];
-                  }
-                }
-                
-                if (
-                  typeof referencedValue === "object" &&
-                  referencedValue !== null &&
-                  "r" in referencedValue
-                ) {
-                  return referencedValue as RGBA;
-                } else if (
-                  typeof referencedValue === "object" &&
-                  referencedValue !== null &&
-                  "type" in referencedValue &&
-                  referencedValue.type === "VARIABLE_ALIAS"
-                ) {
-                  return resolveVariableValue(referencedValue, modeId, depth + 1);
-                } else {
-                  return `→ ${referencedVariable.name}`;
-                }
-              }
-            } catch (error) {
-              console.error("Error resolving variable alias:", error);
-            }
+          if (!isSupportedVariableType(resolvedType)) {
+            continue;
+          }
+          if (resolvedTypes && !resolvedTypes.includes(resolvedType)) {
+            continue;
           }
-          return "Unresolved";
-        };
-
-        // Process local variables
-        const localVariables = figma.variables.getLocalVariables();
-        for (const variable of localVariables) {
           if (
-            variable.resolvedType === "COLOR" &&
-            !processedVariableIds.has(variable.id)
+            collectionId &&
+            !libraryCollectionKey &&
+            variable.variableCollectionId !== collectionId
           ) {
-            if (
-              collectionId &&
-              variable.variableCollectionId !== collectionId
-            ) {
-              continue;
-            }
+            continue;
+          }
 
-            // Get collection info for modes
-            let collectionInfo = collectionCache.get(
-              variable.variableCollectionId
-            );
-            if (!collectionInfo) {
-              const collection = figma.variables.getVariableCollectionById(
-                variable.variableCollectionId
-              );
-              if (collection) {
-                collectionInfo = {
-                  defaultModeId: collection.defaultModeId,
-                  modes: collection.modes.map((mode) => ({
-                    id: mode.modeId,
-                    name: mode.name,
-                  })),
-                };
-                collectionCache.set(
-                  variable.variableCollectionId,
-                  collectionInfo
-                );
-              }
-            }
+          // Get collection info for modes
+          const collection = getCachedCollection(variable.variableCollectionId);
 
-            const colorVar: ColorVariable = {
-              id: variable.id,
-              name: variable.name,
-              resolvedType: variable.resolvedType,
-              valuesByMode: {},
-              defaultModeId:
-                collectionInfo?.defaultModeId ||
-                Object.keys(variable.valuesByMode)[0] ||
-                "",
-              modes: collectionInfo?.modes || [],
-              description: variable.description || "",
-              isLocal: true,
-            };
-
-            // Get values for each mode
-            for (const modeId of Object.keys(variable.valuesByMode)) {
-              const value = variable.valuesByMode[modeId];
-              colorVar.valuesByMode[modeId] = resolveVariableValue(
-                value,
-                modeId
-              );
-            }
+          const variableInfo: VariableInfo = {
+            id: variable.id,
+            name: variable.name,
+            resolvedType,
+            valuesByMode: {},
+            defaultModeId:
+              collection?.defaultModeId ||
+              Object.keys(variable.valuesByMode)[0] ||
+              "",
+            modes:
+              collection?.modes.map((mode) => ({
+                id: mode.modeId,
+                name: mode.name,
+              })) || [],
+            description: variable.description || "",
+            isLocal: !variable.remote,
+            libraryName:
+              collection && collection.remote
+                ? libraryNamesByKey.get(collection.key)
+                : undefined,
+            deprecation:
+              (await getDeprecationInfo(variable, deprecationRegistry)) ||
+              undefined,
+          };
 
-            colorVariables.push(colorVar);
-            processedVariableIds.add(variable.id);
+          // Get values for each mode
+          for (const modeId of Object.keys(variable.valuesByMode)) {
+            variableInfo.valuesByMode[modeId] = resolveVariableModeValue(
+              variable,
+              modeId
+            );
           }
+
+          variables.push(variableInfo);
+          processedVariableIds.add(variable.id);
         }
 
-        emit("COLOR_VARIABLES_RESULT", colorVariables);
+        // Library variables this file does not use are listed by name only, as
+        // reading their values would import them
+        libraryVariables?.unused.forEach((libraryVariable) => {
+          const resolvedType = libraryVariable.resolvedType;
+          if (
+            !isSupportedVariableType(resolvedType) ||
+            (resolvedTypes && !resolvedTypes.includes(resolvedType))
+          ) {
+            return;
+          }
+          variables.push({
+            id: getLibraryVariableId(libraryVariable.key),
+            name: libraryVariable.name,
+            resolvedType,
+            valuesByMode: {},
+            defaultModeId: "",
+            modes: [],
+            description: "",
+            isLocal: false,
+            libraryName: libraryCollectionKey
+              ? libraryNamesByKey.get(libraryCollectionKey)
+              : undefined,
+            notInFile: true,
+          });
+        });
+
+        emit("VARIABLES_RESULT", variables);
       } catch (error) {
-        console.error("Error fetching color variables:", error);
-        emit("COLOR_VARIABLES_RESULT", []);
+        console.error("Error fetching variables:", error);
+        emit("VARIABLES_RESULT", []);
       }
     }
   );
 
+  // Result table of the last search, flagged once watch mode sees a change
+  let lastResultTable: FrameNode | null = null;
+
+  /**
+   * Searches the given scope for the bindings of some variables, streams the
+   * progress to the UI, sends the result rows and draws the result table
+   */
+  async function searchAndDrawResults(
+    variables: Variable[],
+    scope: SearchScope,
+    granularity: ResultGranularity,
+    scanOptions: ScanOptions,
+    drawTable: boolean = true
+  ) {
+    searchCancelled = false; // Reset cancellation flag
+    searchPaused = false;
+    lastResultTable = null;
+
+    const { rootNodes, label } = await resolveSearchScope(scope);
+    console.log(
+      `🔍 Finding bound nodes for ${variables.length} selected variables in ${label}...`
+    );
+
+    // Pages are answered from their usage index, rebuilt first for the pages
+    // that changed. Raw values are not indexed, so looking for unbound matches
+    // scans every page.
+    const indexedNodesByPage = scanOptions.includeUnboundMatches
+      ? undefined
+      : await getUsageIndex(getPagesOfNodes(rootNodes), {
+          onProgress: (pagesWalked, totalPages) => {
+            emit("SEARCH_PROGRESS", {
+              current: pagesWalked,
+              total: totalPages,
+              percentage: Math.round((pagesWalked / totalPages) * 100),
+              nodesFound: 0,
+              indexing: true,
+              totalVariables: variables.length,
+              scopeLabel: label,
+            });
+          },
+          shouldCancel: () => searchCancelled,
+          waitWhilePaused,
+        });
+
+    // Load fonts with better error handling
+    try {
+      await loadInterFont();
+    } catch (fontError) {
+      console.warn("Font loading failed, continuing with defaults:", fontError);
+    }
+
+    // PHASE 2: Pass callbacks for progress and streaming (now async)
+    // A single traversal collects the bound nodes of every selected variable
+    const boundNodesByVariable = await findNodesWithBoundVariables(
+      variables,
+      granularity,
+      {
+        rootNodes,
+        callbacks: {
+          onProgress: (current, total, nodesFound, timing) => {
+            emit("SEARCH_PROGRESS", {
+              current,
+              total,
+              percentage: Math.round((current / total) * 100),
+              nodesFound,
+              nodesPerSecond: timing.nodesPerSecond,
+              secondsRemaining: timing.secondsRemaining,
+              totalVariables: variables.length,
+              scopeLabel: label,
+            });
+          },
+          onStreamingResult: (result) => {
+            emit("STREAMING_RESULT", result);
+          },
+          shouldCancel: () => searchCancelled,
+          waitWhilePaused,
+        },
+        scanOptions,
+        indexedNodesByPage,
+      }
+    );
+
+    if (searchCancelled) {
+      console.log("🛑 Search cancelled by user");
+    }
+
+    const deprecationRegistry = getDeprecationRegistry();
+    const deprecations = await Promise.all(
+      variables.map((variable) =>
+        getDeprecationInfo(variable, deprecationRegistry)
+      )
+    );
+    const results = variables.map((variable, index) => {
+      const foundNodes = boundNodesByVariable.get(variable.id) || [];
+      // Unbound raw value matches and detached layers are reported apart
+      // from real bindings
+      const boundNodes = foundNodes.filter(
+        (nodeInfo) => !nodeInfo.unboundMatch && !nodeInfo.formerlyBound
+      );
+      return {
+        variable,
+        boundNodes,
+        unboundMatches: foundNodes.filter((nodeInfo) => nodeInfo.unboundMatch),
+        formerlyBoundNodes: foundNodes.filter(
+          (nodeInfo) => nodeInfo.formerlyBound
+        ),
+        summary: summarizeBoundNodes(boundNodes),
+        granularity,
+        scopeLabel: label,
+        deprecation: deprecations[index],
+      };
+    });
+
+    // Results of a cancelled search are listed as far as they go
+    emit(
+      "SEARCH_RESULTS",
+      results.flatMap(
+        ({ variable, boundNodes, unboundMatches, formerlyBoundNodes }) =>
+          [...boundNodes, ...unboundMatches, ...formerlyBoundNodes].map((info) =>
+            toResultRow(variable, info)
+          )
+      )
+    );
+
+    // Create visual table if we have results
+    if (results.length > 0 && drawTable) {
+      try {
+        console.log(
+          `🎨 Creating result table for ${results.length} variables...`
+        );
+        lastResultTable = createResultTable(results);
+        console.log(
+          `📊 Successfully created visual result table with ${results.reduce(
+            (total, r) => total + r.boundNodes.length,
+            0
+          )} total bound nodes across ${results.length} variables`
+        );
+      } catch (tableError) {
+        console.error("❌ Error creating result table:", tableError);
+        if (tableError instanceof Error) {
+          console.error("Stack trace:", tableError.stack);
+        }
+
+        // Fallback to console output
+        console.log("📋 Falling back to console output:");
+        results.forEach((result, index) => {
+          console.log(
+            `${index + 1}. Variable: ${result.variable.name} - ${
+              result.boundNodes.length
+            } nodes found`
+          );
+          result.boundNodes.forEach((boundNode, nodeIndex) => {
+            console.log(
+              `   ${nodeIndex + 1}. ${boundNode.node.name} (${
+                boundNode.node.type
+              }) - ${boundNode.boundProperties.join(", ")}`
+            );
+          });
+        });
+      }
+    } else if (results.length > 0) {
+      console.log("📋 Result table not drawn, results are listed in the plugin");
+    } else {
+      console.log(`⚠️ No results to display`);
+    }
+
+    // Watch mode compares later changes to these results
+    if (searchCancelled) {
+      clearWatchedSearch();
+    } else {
+      await setWatchedSearch(
+        {
+          variables,
+          scope,
+          rootNodes,
+          granularity,
+          scanOptions,
+          boundNodesByVariable,
+        },
+        lastResultTable ? [lastResultTable] : []
+      );
+    }
+  }
+
   on<FindBoundNodesHandler>(
     "FIND_BOUND_NODES",
     async function (options: {
       variableIds: string[];
-      pageId?: string | null;
+      scope?: SearchScope;
+      granularity?: ResultGranularity;
+      scanOptions?: ScanOptions;
+      drawResultTable?: boolean;
+    }) {
+      try {
+        const {
+          variableIds,
+          scope = {
+            type: "pages",
+            pageIds: figma.root.children.map((page) => page.id),
+          },
+          granularity = "instance",
+          scanOptions = {},
+          drawResultTable = true,
+        } = options;
+
+        const variables: Variable[] = [];
+        for (const variableId of variableIds) {
+          const variable = await getVariable(variableId);
+          if (variable) {
+            variables.push(variable);
+          } else {
+            console.log(`❌ Variable with ID ${variableId} not found`);
+          }
+        }
+
+        await searchAndDrawResults(
+          variables,
+          scope,
+          granularity,
+          scanOptions,
+          drawResultTable
+        );
+      } catch (error) {
+        console.error("❌ Error finding bound nodes:", error);
+      } finally {
+        emit("FIND_BOUND_NODES_COMPLETE");
+      }
+    }
+  );
+
+  // One result row per deprecated variable, showing its suggested replacement
+  on<ScanDeprecatedHandler>(
+    "SCAN_DEPRECATED",
+    async function (options: {
+      scope?: SearchScope;
+      granularity?: ResultGranularity;
+      scanOptions?: ScanOptions;
+      drawResultTable?: boolean;
+    }) {
+      try {
+        const {
+          scope = {
+            type: "pages",
+            pageIds: figma.root.children.map((page) => page.id),
+          },
+          granularity = "instance",
+          scanOptions = {},
+          drawResultTable = true,
+        } = options;
+
+        const variables = (await findDeprecatedVariables()).map(
+          ({ variable }) => variable
+        );
+        if (variables.length === 0) {
+          figma.notify("No deprecated variables in this file");
+          return;
+        }
+
+        console.log(`🚫 Scanning usages of ${variables.length} deprecated variables`);
+        await searchAndDrawResults(
+          variables,
+          scope,
+          granularity,
+          scanOptions,
+          drawResultTable
+        );
+      } catch (error) {
+        console.error("❌ Error scanning deprecated variables:", error);
+      } finally {
+        emit("FIND_BOUND_NODES_COMPLETE");
+      }
+    }
+  );
+
+  on<SetDeprecationHandler>(
+    "SET_DEPRECATION",
+    async function (options: {
+      variableId: string;
+      entry: { replacementVariableId: string | null; note: string } | null;
     }) {
       try {
-        const { variableIds, pageId } = options;
+        setDeprecationEntry(options.variableId, options.entry);
+      } catch (error) {
+        console.error("❌ Error saving deprecation:", error);
+      }
+      // Only the edited variable changes, so library variables listed in the
+      // UI keep their deprecation badges
+      const variable = await getVariable(options.variableId);
+      emit("DEPRECATION_UPDATED", {
+        variableId: options.variableId,
+        deprecation: variable
+          ? await getDeprecationInfo(variable, getDeprecationRegistry())
+          : null,
+      });
+    }
+  );
+
+  on<AuditUnusedHandler>(
+    "AUDIT_UNUSED",
+    async function (options: { collectionIds: string[]; scope?: SearchScope }) {
+      let summary: {
+        totalVariables: number;
+        unusedCount: number;
+        aliasOnlyCount: number;
+        styleOnlyCount: number;
+      } | null = null;
+
+      try {
+        const {
+          collectionIds,
+          scope = {
+            type: "pages",
+            pageIds: figma.root.children.map((page) => page.id),
+          },
+        } = options;
         searchCancelled = false; // Reset cancellation flag
+        searchPaused = false;
+
+        const { rootNodes, label } = await resolveSearchScope(scope);
+        const collectionIdSet = new Set(collectionIds);
+        const variables = (await getLocalVariables()).filter((variable) =>
+          collectionIdSet.has(variable.variableCollectionId)
+        );
 
         console.log(
-          `🔍 Finding bound nodes for ${variableIds.length} selected variables${
-            pageId
-              ? ` on page ${figma.getNodeById(pageId)?.name || pageId}`
-              : " on all pages"
-          }...`
+          `🧹 Auditing ${variables.length} variables from ${collectionIds.length} collection(s) in ${label}...`
         );
 
-        // Load fonts with better error handling
         try {
           await loadInterFont();
         } catch (fontError) {
@@ -257,105 +746,392 @@ export default function () {
           );
         }
 
-        const results = [];
+        const report = await auditUnusedVariables(variables, rootNodes, {
+          onProgress: (current, total, nodesFound, timing) => {
+            emit("SEARCH_PROGRESS", {
+              current,
+              total,
+              percentage: Math.round((current / total) * 100),
+              nodesFound,
+              nodesPerSecond: timing.nodesPerSecond,
+              secondsRemaining: timing.secondsRemaining,
+              totalVariables: variables.length,
+              scopeLabel: label,
+            });
+          },
+          shouldCancel: () => searchCancelled,
+          waitWhilePaused,
+        });
+
+        summary = {
+          totalVariables: report.totalVariables,
+          unusedCount: report.unused.length,
+          aliasOnlyCount: report.aliasOnly.length,
+          styleOnlyCount: report.styleOnly.length,
+        };
+
+        try {
+          createUnusedVariablesTable(report, label);
+        } catch (tableError) {
+          console.error("❌ Error creating unused variables table:", tableError);
+          report.unused.forEach((variable) => {
+            console.log(`   Unused: ${variable.name}`);
+          });
+          report.aliasOnly.forEach(({ variable, aliasedBy }) => {
+            console.log(`   Alias only: ${variable.name} (via ${aliasedBy.join(", ")})`);
+          });
+          report.styleOnly.forEach(({ variable, styleNames }) => {
+            console.log(`   Style only: ${variable.name} (in ${styleNames.join(", ")})`);
+          });
+        }
+      } catch (error) {
+        console.error("❌ Error auditing unused variables:", error);
+      } finally {
+        emit("AUDIT_UNUSED_COMPLETE", summary);
+      }
+    }
+  );
+
+  on<ReplaceVariableHandler>(
+    "REPLACE_VARIABLE",
+    async function (options: {
+      sourceVariableId: string;
+      targetVariableId: string;
+      scope?: SearchScope;
+      scanOptions?: ScanOptions;
+      dryRun: boolean;
+    }) {
+      const {
+        sourceVariableId,
+        targetVariableId,
+        scope = {
+          type: "pages",
+          pageIds: figma.root.children.map((page) => page.id),
+        },
+        scanOptions = {},
+        dryRun,
+      } = options;
+      searchCancelled = false; // Reset cancellation flag
+      searchPaused = false;
+
+      const report: ReplacementReport = {
+        dryRun,
+        sourceVariableName: "",
+        targetVariableName: "",
+        nodeCount: 0,
+        bindingCount: 0,
+        countsByProperty: {},
+        skippedCount: 0,
+        updatedCount: 0,
+        failures: [],
+      };
+
+      try {
+        const sourceVariable = await getVariable(sourceVariableId);
+        const targetVariable = await getVariable(targetVariableId);
+        if (!sourceVariable || !targetVariable) {
+          throw new Error("Variable not found");
+        }
+        if (sourceVariable.resolvedType !== targetVariable.resolvedType) {
+          throw new Error(
+            `Cannot replace a ${sourceVariable.resolvedType} variable with a ${targetVariable.resolvedType} variable`
+          );
+        }
+        report.sourceVariableName = sourceVariable.name;
+        report.targetVariableName = targetVariable.name;
+
+        const { rootNodes, label } = await resolveSearchScope(scope);
+        console.log(
+          `🔁 ${dryRun ? "Previewing" : "Replacing"} ${sourceVariable.name} → ${targetVariable.name} in ${label}...`
+        );
 
-        for (let i = 0; i < variableIds.length; i++) {
-          const variableId = variableIds[i];
-          if (searchCancelled) {
-            console.log("🛑 Search cancelled by user");
-            break;
+        // Every bound layer is needed, so results are never collapsed here
+        const boundNodesByVariable = await findNodesWithBoundVariables(
+          [sourceVariable],
+          "layer",
+          {
+            rootNodes,
+            callbacks: {
+              onProgress: (current, total, nodesFound, timing) => {
+                emit("SEARCH_PROGRESS", {
+                  current,
+                  total,
+                  percentage: Math.round((current / total) * 100),
+                  nodesFound,
+                  nodesPerSecond: timing.nodesPerSecond,
+                  secondsRemaining: timing.secondsRemaining,
+                  totalVariables: 1,
+                  scopeLabel: label,
+                });
+              },
+              shouldCancel: () => searchCancelled,
+              waitWhilePaused,
+            },
+            scanOptions: {
+              includeHidden: scanOptions.includeHidden,
+              includeLocked: scanOptions.includeLocked,
+            },
           }
+        );
 
-          try {
-            const variable = figma.variables.getVariableById(variableId);
-            if (variable) {
-              // PHASE 2: Pass callbacks for progress and streaming (now async)
-              const boundNodes = await findNodesWithBoundVariable(
-                variable,
-                true,
-                pageId,
-                {
-                  onProgress: (current, total, nodesFound) => {
-                    emit("SEARCH_PROGRESS", {
-                      current,
-                      total,
-                      percentage: Math.round((current / total) * 100),
-                      nodesFound,
-                      currentVariableName: variable.name,
-                      currentVariableIndex: i + 1,
-                      totalVariables: variableIds.length,
-                    });
-                  },
-                  onStreamingResult: (result) => {
-                    emit("STREAMING_RESULT", result);
-                  },
-                  shouldCancel: () => searchCancelled,
-                }
-              );
-
-              const summary = await getVariableUsageSummary(
-                variable,
-                true,
-                pageId
-              );
-
-              results.push({
-                variable,
-                boundNodes,
-                summary,
-                instancesOnly: true,
-              });
-            } else {
-              console.log(`❌ Variable with ID ${variableId} not found`);
-            }
-          } catch (error) {
-            console.error(`❌ Error processing variable ${variableId}:`, error);
+        if (searchCancelled) {
+          throw new Error("Cancelled before any change was made");
+        }
+
+        const boundNodes = boundNodesByVariable.get(sourceVariable.id) || [];
+        const { bindings, skippedCount } = planReplacement(boundNodes);
+        report.nodeCount = new Set(bindings.map(({ node }) => node.id)).size;
+        report.bindingCount = bindings.length;
+        report.countsByProperty = countBindingsByProperty(bindings);
+        report.skippedCount = skippedCount;
+
+        if (!dryRun && bindings.length > 0) {
+          await loadFontsForBindings(bindings);
+
+          // Keep earlier edits out of this step, then apply everything at once
+          figma.commitUndo();
+          const { updatedCount, failures } = applyReplacement(
+            bindings,
+            targetVariable
+          );
+          figma.commitUndo();
+
+          report.updatedCount = updatedCount;
+          report.failures = failures;
+          console.log(
+            `✅ Rebound ${updatedCount} of ${bindings.length} bindings, ${failures.length} failed`
+          );
+          figma.notify(
+            `Replaced ${sourceVariable.name} with ${targetVariable.name} on ${updatedCount} bindings${
+              failures.length > 0 ? ` (${failures.length} failed)` : ""
+            }`
+          );
+        }
+      } catch (error) {
+        console.error("❌ Error replacing variable:", error);
+        report.error = error instanceof Error ? error.message : String(error);
+      } finally {
+        emit("REPLACE_VARIABLE_RESULT", report);
+      }
+    }
+  );
+
+  on<DetachVariableHandler>(
+    "DETACH_VARIABLE",
+    async function (options: {
+      variableId: string;
+      scope?: SearchScope;
+      scanOptions?: ScanOptions;
+    }) {
+      const {
+        variableId,
+        scope = {
+          type: "pages",
+          pageIds: figma.root.children.map((page) => page.id),
+        },
+        scanOptions = {},
+      } = options;
+      searchCancelled = false; // Reset cancellation flag
+      searchPaused = false;
+
+      const report: DetachReport = {
+        variableName: "",
+        nodeCount: 0,
+        bindingCount: 0,
+        skippedCount: 0,
+        updatedCount: 0,
+        failures: [],
+      };
+
+      try {
+        const variable = await getVariable(variableId);
+        if (!variable) {
+          throw new Error("Variable not found");
+        }
+        report.variableName = variable.name;
+
+        const { rootNodes, label } = await resolveSearchScope(scope);
+        console.log(`✂️ Detaching ${variable.name} in ${label}...`);
+
+        const boundNodesByVariable = await findNodesWithBoundVariables(
+          [variable],
+          "layer",
+          {
+            rootNodes,
+            callbacks: {
+              onProgress: (current, total, nodesFound, timing) => {
+                emit("SEARCH_PROGRESS", {
+                  current,
+                  total,
+                  percentage: Math.round((current / total) * 100),
+                  nodesFound,
+                  nodesPerSecond: timing.nodesPerSecond,
+                  secondsRemaining: timing.secondsRemaining,
+                  totalVariables: 1,
+                  scopeLabel: label,
+                });
+              },
+              shouldCancel: () => searchCancelled,
+              waitWhilePaused,
+            },
+            scanOptions: {
+              includeHidden: scanOptions.includeHidden,
+              includeLocked: scanOptions.includeLocked,
+            },
           }
+        );
+
+        if (searchCancelled) {
+          throw new Error("Cancelled before any change was made");
         }
 
-        // Create visual table if we have results
-        if (results.length > 0) {
-          try {
-            console.log(
-              `🎨 Creating result table for ${results.length} variables...`
-            );
-            const resultTable = createResultTable(results);
-            console.log(
-              `📊 Successfully created visual result table with ${results.reduce(
-                (total, r) => total + r.boundNodes.length,
-                0
-              )} total bound nodes across ${results.length} variables`
-            );
-          } catch (tableError) {
-            console.error("❌ Error creating result table:", tableError);
-            if (tableError instanceof Error) {
-              console.error("Stack trace:", tableError.stack);
+        // Same bindings a replacement would rewrite: the ones set on the layer itself
+        const boundNodes = boundNodesByVariable.get(variable.id) || [];
+        const { bindings, skippedCount } = planReplacement(boundNodes);
+        report.nodeCount = new Set(bindings.map(({ node }) => node.id)).size;
+        report.bindingCount = bindings.length;
+        report.skippedCount = skippedCount;
+
+        if (bindings.length > 0) {
+          await loadFontsForBindings(bindings);
+
+          // Keep earlier edits out of this step, then detach everything at once
+          figma.commitUndo();
+          const { updatedCount, failures } = detachBindings(bindings, variable);
+          figma.commitUndo();
+
+          report.updatedCount = updatedCount;
+          report.failures = failures;
+          console.log(
+            `✅ Detached ${updatedCount} of ${bindings.length} bindings, ${failures.length} failed`
+          );
+          figma.notify(
+            `Detached ${variable.name} from ${updatedCount} bindings${
+              failures.length > 0 ? ` (${failures.length} failed)` : ""
+            }`
+          );
+        }
+      } catch (error) {
+        console.error("❌ Error detaching variable:", error);
+        report.error = error instanceof Error ? error.message : String(error);
+      } finally {
+        emit("DETACH_VARIABLE_RESULT", report);
+      }
+    }
+  );
+
+  on<SetWatchModeHandler>(
+    "SET_WATCH_MODE",
+    async function (options: { enabled: boolean }) {
+      if (!options.enabled) {
+        stopWatching();
+        return;
+      }
+      try {
+        await startWatching((update) => {
+          emit("WATCH_UPDATE", update);
+          if (
+            (update.added.length > 0 || update.removed.length > 0) &&
+            lastResultTable &&
+            !lastResultTable.removed
+          ) {
+            try {
+              markResultTableOutOfDate(lastResultTable);
+            } catch (error) {
+              console.warn("Could not flag the result table:", error);
             }
+          }
+        });
+      } catch (error) {
+        console.error("❌ Error starting watch mode:", error);
+      }
+    }
+  );
 
-            // Fallback to console output
-            console.log("📋 Falling back to console output:");
-            results.forEach((result, index) => {
-              console.log(
-                `${index + 1}. Variable: ${result.variable.name} - ${
-                  result.boundNodes.length
-                } nodes found`
-              );
-              result.boundNodes.forEach((boundNode, nodeIndex) => {
-                console.log(
-                  `   ${nodeIndex + 1}. ${boundNode.node.name} (${
-                    boundNode.node.type
-                  }) - ${boundNode.boundProperties.join(", ")}`
-                );
-              });
-            });
+  on<FocusNodeHandler>("FOCUS_NODE", async function (nodeId: string) {
+    try {
+      const node = await figma.getNodeByIdAsync(nodeId);
+      if (
+        !node ||
+        node.removed ||
+        node.type === "PAGE" ||
+        node.type === "DOCUMENT"
+      ) {
+        figma.notify("This layer no longer exists");
+        return;
+      }
+
+      const page = getPageOf(node);
+      if (page && page.id !== figma.currentPage.id) {
+        await figma.setCurrentPageAsync(page);
+      }
+
+      figma.currentPage.selection = [node];
+      figma.viewport.scrollAndZoomIntoView([node]);
+    } catch (error) {
+      console.error("❌ Error focusing layer:", error);
+    }
+  });
+
+  on<SelectResultsHandler>(
+    "SELECT_RESULTS",
+    async function (options: { nodeIds: string[]; allPages: boolean }) {
+      try {
+        const nodesByPage = new Map<
+          string,
+          { page: PageNode; nodes: SceneNode[] }
+        >();
+        for (const nodeId of Array.from(new Set(options.nodeIds))) {
+          const node = await figma.getNodeByIdAsync(nodeId);
+          if (
+            !node ||
+            node.removed ||
+            node.type === "PAGE" ||
+            node.type === "DOCUMENT"
+          ) {
+            continue;
+          }
+          const page = getPageOf(node);
+          if (page && (options.allPages || page.id === figma.currentPage.id)) {
+            const pageNodes = nodesByPage.get(page.id) || { page, nodes: [] };
+            pageNodes.nodes.push(node);
+            nodesByPage.set(page.id, pageNodes);
           }
-        } else {
-          console.log(`⚠️ No results to display`);
         }
+
+        if (nodesByPage.size === 0) {
+          figma.notify(
+            options.allPages
+              ? "None of the results exist anymore"
+              : "No results on this page"
+          );
+          return;
+        }
+
+        // Every page keeps its own selection; the current page is kept when it
+        // has results, otherwise the first page with results is shown
+        nodesByPage.forEach(({ page, nodes }) => {
+          page.selection = nodes;
+        });
+        const target =
+          nodesByPage.get(figma.currentPage.id) ||
+          Array.from(nodesByPage.values())[0];
+        if (target.page.id !== figma.currentPage.id) {
+          await figma.setCurrentPageAsync(target.page);
+        }
+        figma.viewport.scrollAndZoomIntoView(target.nodes);
+
+        const selectedCount = Array.from(nodesByPage.values()).reduce(
+          (total, { nodes }) => total + nodes.length,
+          0
+        );
+        figma.notify(
+          nodesByPage.size > 1
+            ? `Selected ${selectedCount} layers on ${nodesByPage.size} pages`
+            : `Selected ${selectedCount} layer${selectedCount !== 1 ? "s" : ""}`
+        );
       } catch (error) {
-        console.error("❌ Error finding bound nodes:", error);
-      } finally {
-        emit("FIND_BOUND_NODES_COMPLETE");
+        console.error("❌ Error selecting results:", error);
       }
     }
   );
@@ -364,13 +1140,28 @@ export default function () {
   on<CancelSearchHandler>("CANCEL_SEARCH", function () {
     console.log("🛑 Cancellation requested by user");
     searchCancelled = true;
+    // A paused search has to wake up to notice the cancellation
+    releasePausedSearch();
+  });
+
+  on<PauseSearchHandler>("PAUSE_SEARCH", function () {
+    console.log("⏸️ Search paused by user");
+    searchPaused = true;
+  });
+
+  on<ResumeSearchHandler>("RESUME_SEARCH", function () {
+    console.log("▶️ Search resumed by user");
+    releasePausedSearch();
   });
 
   once<CloseHandler>("CLOSE", function () {
     figma.closePlugin();
   });
-  showUI({
-    height: 800,
-    width: 520,
-  });
+  showUI(
+    {
+      height: 800,
+      width: 520,
+    },
+    { selectionCount: figma.currentPage.selection.length }
+  );
 }
@@ -0,0 +1,295 @@
+/**
+ * Rebinds the layers found for one variable to another variable
+ */
+
+import { BoundNodeInfo } from "./findBoundVariables";
+import { ReplacementFailure } from "./types";
+
+/**
+ * A binding to rewrite: one property of one layer
+ */
+interface PlannedBinding {
+  node: SceneNode;
+  property: string;
+}
+
+/**
+ * Lists the bindings a replacement rewrites. Usages through a style or an alias
+ * are not bound on the layer itself, so they are left out and only counted.
+ * Unbound matches and formerly bound layers are not bindings and are ignored.
+ */
+export function planReplacement(boundNodes: BoundNodeInfo[]): {
+  bindings: PlannedBinding[];
+  skippedCount: number;
+} {
+  const bindings: PlannedBinding[] = [];
+  let skippedCount = 0;
+
+  for (const nodeInfo of boundNodes) {
+    if (nodeInfo.unboundMatch || nodeInfo.formerlyBound) {
+      continue;
+    }
+    if (nodeInfo.viaStyle || nodeInfo.aliasPath) {
+      skippedCount++;
+      continue;
+    }
+    nodeInfo.boundProperties.forEach((property) => {
+      bindings.push({ node: nodeInfo.node, property });
+    });
+  }
+
+  return { bindings, skippedCount };
+}
+
+/**
+ * Counts planned bindings per property kind, e.g. "fills.color" or "paddingLeft"
+ */
+export function countBindingsByProperty(
+  bindings: PlannedBinding[]
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  bindings.forEach(({ property }) => {
+    const propertyKind = getPropertyKind(property);
+    counts[propertyKind] = (counts[propertyKind] || 0) + 1;
+  });
+  return counts;
+}
+
+/**
+ * Loads the fonts of every text layer a replacement touches, as rebinding
+ * text properties requires them
+ */
+export async function loadFontsForBindings(bindings: PlannedBinding[]) {
+  const fontKeys = new Set<string>();
+  const fonts: FontName[] = [];
+
+  bindings.forEach(({ node }) => {
+    if (node.type !== "TEXT" || node.characters.length === 0) {
+      return;
+    }
+    try {
+      node.getRangeAllFontNames(0, node.characters.length).forEach((font) => {
+        const fontKey = `${font.family}|${font.style}`;
+        if (!fontKeys.has(fontKey)) {
+          fontKeys.add(fontKey);
+          fonts.push(font);
+        }
+      });
+    } catch (error) {
+      console.warn(`Could not read fonts of ${node.name}:`, error);
+    }
+  });
+
+  await Promise.all(
+    fonts.map((font) =>
+      figma.loadFontAsync(font).catch((error) => {
+        console.warn(`Could not load font ${font.family} ${font.style}:`, error);
+      })
+    )
+  );
+}
+
+/**
+ * Rebinds every planned binding to the given variable. Runs synchronously so
+ * the whole replacement lands in a single undo step.
+ * @returns The number of updated bindings and the ones that could not be updated
+ */
+export function applyReplacement(
+  bindings: PlannedBinding[],
+  variable: Variable
+): { updatedCount: number; failures: ReplacementFailure[] } {
+  let updatedCount = 0;
+  const failures: ReplacementFailure[] = [];
+
+  for (const { node, property } of bindings) {
+    try {
+      bindPropertyPath(node, property, variable);
+      updatedCount++;
+    } catch (error) {
+      failures.push({
+        nodeId: node.id,
+        nodeName: node.name,
+        property,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { updatedCount, failures };
+}
+
+/**
+ * Binds the field at a property path (as produced by findNodesWithBoundVariables)
+ * to a variable, or unbinds it when the variable is null
+ */
+export function bindPropertyPath(
+  node: SceneNode,
+  propertyPath: string,
+  variable: Variable | null
+) {
+  // Bindings on a character range of a text layer
+  const rangeMatch = propertyPath.match(/^textRanges\[(\d+):(\d+)\]\.(.+)$/);
+  if (rangeMatch) {
+    if (node.type !== "TEXT") {
+      throw new Error("Text ranges only exist on text layers");
+    }
+    const start = Number(rangeMatch[1]);
+    const end = Number(rangeMatch[2]);
+    const rangeProperty = rangeMatch[3];
+
+    const fillMatch = rangeProperty.match(/^fills\[(\d+)\]\.color$/);
+    if (fillMatch) {
+      // Fills can differ within the range, so each segment is rebound on its own
+      const paintIndex = Number(fillMatch[1]);
+      for (const segment of node.getStyledTextSegments(["fills"], start, end)) {
+        node.setRangeFills(
+          segment.start,
+          segment.end,
+          bindPaint(segment.fills, paintIndex, undefined, variable)
+        );
+      }
+      return;
+    }
+
+    node.setRangeBoundVariable(
+      start,
+      end,
+      rangeProperty as VariableBindableTextField,
+      variable
+    );
+    return;
+  }
+
+  const paintMatch = propertyPath.match(
+    /^(fills|strokes)\[(\d+)\](?:\.gradientStops\[(\d+)\])?\.color$/
+  );
+  if (paintMatch) {
+    const paintProperty = paintMatch[1] as "fills" | "strokes";
+    const paints = (node as unknown as Record<string, unknown>)[paintProperty];
+    if (!Array.isArray(paints)) {
+      throw new Error(`Layer has no ${paintProperty}`);
+    }
+    const stopIndex = paintMatch[3] !== undefined ? Number(paintMatch[3]) : undefined;
+    (node as GeometryMixin)[paintProperty] = bindPaint(
+      paints,
+      Number(paintMatch[2]),
+      stopIndex,
+      variable
+    );
+    return;
+  }
+
+  const effectMatch = propertyPath.match(/^effects\[(\d+)\]\.(\w+)$/);
+  if (effectMatch && "effects" in node) {
+    const index = Number(effectMatch[1]);
+    const effects = [...node.effects];
+    if (!effects[index]) {
+      throw new Error(`Effect ${index} no longer exists`);
+    }
+    effects[index] = figma.variables.setBoundVariableForEffect(
+      effects[index],
+      effectMatch[2] as VariableBindableEffectField,
+      variable
+    );
+    node.effects = effects;
+    return;
+  }
+
+  const gridMatch = propertyPath.match(/^layoutGrids\[(\d+)\]\.(\w+)$/);
+  if (gridMatch && "layoutGrids" in node) {
+    const index = Number(gridMatch[1]);
+    const layoutGrids = [...node.layoutGrids];
+    if (!layoutGrids[index]) {
+      throw new Error(`Layout grid ${index} no longer exists`);
+    }
+    layoutGrids[index] = figma.variables.setBoundVariableForLayoutGrid(
+      layoutGrids[index],
+      gridMatch[2] as VariableBindableLayoutGridField,
+      variable
+    );
+    node.layoutGrids = layoutGrids;
+    return;
+  }
+
+  if (propertyPath.startsWith("componentProperties.")) {
+    if (node.type !== "INSTANCE") {
+      throw new Error("Component properties only exist on instances");
+    }
+    if (!variable) {
+      throw new Error("Component properties cannot be unbound");
+    }
+    const propertyName = propertyPath.slice("componentProperties.".length);
+    node.setProperties({
+      [propertyName]: figma.variables.createVariableAlias(variable),
+    });
+    return;
+  }
+
+  if (/^\w+$/.test(propertyPath) && "setBoundVariable" in node) {
+    node.setBoundVariable(
+      propertyPath as VariableBindableNodeField | VariableBindableTextField,
+      variable
+    );
+    return;
+  }
+
+  throw new Error(`Unsupported property ${propertyPath}`);
+}
+
+/**
+ * Returns a copy of a paint list with one solid color or gradient stop rebound
+ */
+function bindPaint(
+  paints: ReadonlyArray<Paint>,
+  paintIndex: number,
+  stopIndex: number | undefined,
+  variable: Variable | null
+): Paint[] {
+  const newPaints = [...paints];
+  const paint = newPaints[paintIndex];
+  if (!paint) {
+    throw new Error(`Paint ${paintIndex} no longer exists`);
+  }
+
+  if (stopIndex === undefined) {
+    if (paint.type !== "SOLID") {
+      throw new Error(`Paint ${paintIndex} is no longer a solid color`);
+    }
+    newPaints[paintIndex] = figma.variables.setBoundVariableForPaint(
+      paint,
+      "color",
+      variable
+    );
+    return newPaints;
+  }
+
+  if (!("gradientStops" in paint) || !paint.gradientStops[stopIndex]) {
+    throw new Error(`Gradient stop ${stopIndex} no longer exists`);
+  }
+  const gradientStops = paint.gradientStops.map((stop, index) => {
+    if (index !== stopIndex) {
+      return stop;
+    }
+    const { boundVariables, ...rawStop } = stop;
+    return variable
+      ? {
+          ...rawStop,
+          boundVariables: { color: figma.variables.createVariableAlias(variable) },
+        }
+      : rawStop;
+  });
+  newPaints[paintIndex] = { ...paint, gradientStops };
+  return newPaints;
+}
+
+/**
+ * Reduces a property path to its kind, dropping indices and text ranges
+ */
+function getPropertyKind(property: string): string {
+  if (property.startsWith("componentProperties.")) {
+    return "componentProperties";
+  }
+  return property
+    .replace(/^textRanges\[[^\]]*\]\./, "")
+    .replace(/\[[^\]]*\]/g, "");
+}
@@ -0,0 +1,158 @@
+import { ResolvedModeInfo, VariableModeValue } from "./types";
+import { getCachedCollection, getCachedVariable } from "./variableCache";
+
+/**
+ * Resolves the value of a variable in a given mode, following alias chains.
+ * Aliased variables are read from the variable cache, so load them first.
+ * @param variable - The variable whose value should be resolved
+ * @param modeId - The mode to resolve the value in
+ * @param getModeId - Optional lookup of the mode to use for aliased variables in other collections
+ * @returns The resolved value tagged with its type, or an UNRESOLVED marker
+ */
+export function resolveVariableModeValue(
+  variable: Variable,
+  modeId: string,
+  getModeId?: (collectionId: string) => string | undefined
+): VariableModeValue {
+  return resolveRawValue(variable.valuesByMode[modeId], modeId, 0, getModeId);
+}
+
+/**
+ * Finds the mode a node uses for a collection: its own explicit mode, the
+ * nearest ancestor's explicit mode, or the collection default
+ */
+export function resolveNodeMode(
+  node: SceneNode,
+  collection: VariableCollection
+): { modeId: string; source: ResolvedModeInfo["source"] } {
+  let currentNode: BaseNode | null = node;
+
+  while (currentNode && currentNode.type !== "DOCUMENT") {
+    if ("explicitVariableModes" in currentNode) {
+      const modeId = currentNode.explicitVariableModes[collection.id];
+      if (modeId) {
+        return {
+          modeId,
+          source: currentNode === node ? "explicit" : "inherited",
+        };
+      }
+    }
+    currentNode = currentNode.parent;
+  }
+
+  return { modeId: collection.defaultModeId, source: "default" };
+}
+
+/**
+ * Resolves the mode and concrete value a node displays for a variable
+ */
+export function resolveNodeModeInfo(
+  node: SceneNode,
+  variable: Variable,
+  getCollection: (collectionId: string) => VariableCollection | null
+): ResolvedModeInfo | undefined {
+  const collection = getCollection(variable.variableCollectionId);
+  if (!collection) {
+    return undefined;
+  }
+
+  const { modeId, source } = resolveNodeMode(node, collection);
+  const modeName =
+    collection.modes.find((mode) => mode.modeId === modeId)?.name || modeId;
+
+  // Aliased variables in other collections follow the node's modes as well
+  const getModeId = (collectionId: string) => {
+    const aliasCollection = getCollection(collectionId);
+    return aliasCollection ? resolveNodeMode(node, aliasCollection).modeId : undefined;
+  };
+
+  return {
+    modeId,
+    modeName,
+    source,
+    value: resolveVariableModeValue(variable, modeId, getModeId),
+  };
+}
+
+/**
+ * Resolves a raw VariableValue (possibly an alias) to a typed value
+ */
+function resolveRawValue(
+  value: VariableValue | undefined,
+  modeId: string,
+  depth: number,
+  getModeId?: (collectionId: string) => string | undefined
+): VariableModeValue {
+  if (depth > 10) {
+    return { type: "UNRESOLVED", reason: "Circular reference" };
+  }
+
+  if (value === undefined || value === null) {
+    return { type: "UNRESOLVED", reason: "Unresolved" };
+  }
+
+  if (typeof value === "number") {
+    return { type: "FLOAT", value };
+  }
+  if (typeof value === "string") {
+    return { type: "STRING", value };
+  }
+  if (typeof value === "boolean") {
+    return { type: "BOOLEAN", value };
+  }
+
+  if (typeof value === "object" && "r" in value) {
+    const color = value as RGB | RGBA;
+    return {
+      type: "COLOR",
+      value: {
+        r: color.r,
+        g: color.g,
+        b: color.b,
+        a: "a" in color ? color.a : 1,
+      },
+    };
+  }
+
+  if (
+    typeof value === "object" &&
+    "type" in value &&
+    value.type === "VARIABLE_ALIAS"
+  ) {
+    try {
+      const referencedVariable = getCachedVariable(value.id);
+      if (!referencedVariable) {
+        return { type: "UNRESOLVED", reason: "Unresolved" };
+      }
+
+      const referencedModeId =
+        getModeId?.(referencedVariable.variableCollectionId) || modeId;
+      let referencedValue = referencedVariable.valuesByMode[referencedModeId];
+
+      // The referenced variable may live in another collection with different modes
+      if (referencedValue === undefined) {
+        const collection = getCachedCollection(
+          referencedVariable.variableCollectionId
+        );
+        if (collection) {
+          referencedValue = referencedVariable.valuesByMode[collection.defaultModeId];
+        }
+      }
+
+      if (referencedValue === undefined) {
+        return { type: "UNRESOLVED", reason: `→ ${referencedVariable.name}` };
+      }
+
+      return resolveRawValue(
+        referencedValue,
+        referencedModeId,
+        depth + 1,
+        getModeId
+      );
+    } catch (error) {
+      console.error("Error resolving variable alias:", error);
+    }
+  }
+
+  return { type: "UNRESOLVED", reason: "Unresolved" };
+}
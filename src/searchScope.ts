@@ -0,0 +1,112 @@
+import { ScopeContainer, SearchScope } from "./types";
+
+/**
+ * Resolves a search scope to the root nodes to traverse, with a label for logs.
+ * Only the pages the scope covers are loaded.
+ * @param scope - The scope chosen in the UI
+ * @returns The root nodes, without nodes already covered by another root
+ */
+export async function resolveSearchScope(scope: SearchScope): Promise<{
+  rootNodes: SceneNode[];
+  label: string;
+}> {
+  if (scope.type === "selection") {
+    const selection = figma.currentPage.selection;
+    return {
+      rootNodes: removeNestedNodes(selection),
+      label: `${selection.length} selected layer${selection.length === 1 ? "" : "s"}`,
+    };
+  }
+
+  if (scope.type === "container") {
+    const node = await figma.getNodeByIdAsync(scope.nodeId);
+    if (!node || node.type === "DOCUMENT" || node.type === "PAGE") {
+      console.warn(`⚠️ No frame or section found with ID: ${scope.nodeId}`);
+      return { rootNodes: [], label: "missing frame or section" };
+    }
+    return { rootNodes: [node as SceneNode], label: `"${node.name}"` };
+  }
+
+  const pageIds = new Set(scope.pageIds);
+  const pages = figma.root.children.filter((page) => pageIds.has(page.id));
+
+  if (pages.length < pageIds.size) {
+    console.warn(
+      `⚠️ ${pageIds.size - pages.length} selected page(s) no longer exist`
+    );
+  }
+
+  return {
+    rootNodes: await loadPageRootNodes(pages),
+    label:
+      pages.length === figma.root.children.length
+        ? "all pages"
+        : `${pages.length === 1 ? "page" : "pages"} ${pages
+            .map((page) => page.name)
+            .join(", ")}`,
+  };
+}
+
+/**
+ * Loads the given pages and collects their top-level layers
+ */
+export async function loadPageRootNodes(
+  pages: readonly PageNode[]
+): Promise<SceneNode[]> {
+  const rootNodes: SceneNode[] = [];
+  for (const page of pages) {
+    await page.loadAsync();
+    rootNodes.push(...page.children);
+  }
+  return rootNodes;
+}
+
+/**
+ * Lists the top-level frames and the sections (with the frames directly inside them)
+ * of every page, for the frame or section scope picker. Loads every page.
+ */
+export async function findScopeContainers(): Promise<ScopeContainer[]> {
+  const containers: ScopeContainer[] = [];
+
+  const collect = (nodes: readonly SceneNode[], pageName: string) => {
+    for (const node of nodes) {
+      if (node.type === "FRAME" || node.type === "SECTION") {
+        containers.push({
+          id: node.id,
+          name: node.name,
+          type: node.type,
+          pageName,
+        });
+      }
+      // Sections group screens, so their frames are offered as well
+      if (node.type === "SECTION") {
+        collect(node.children, pageName);
+      }
+    }
+  };
+
+  for (const page of figma.root.children) {
+    await page.loadAsync();
+    collect(page.children, page.name);
+  }
+
+  return containers;
+}
+
+/**
+ * Drops nodes whose ancestor is also in the list, so no subtree is scanned twice
+ */
+function removeNestedNodes(nodes: readonly SceneNode[]): SceneNode[] {
+  const nodeIds = new Set(nodes.map((node) => node.id));
+
+  return nodes.filter((node) => {
+    let currentNode: BaseNode | null = node.parent;
+    while (currentNode && currentNode.type !== "PAGE") {
+      if (nodeIds.has(currentNode.id)) {
+        return false;
+      }
+      currentNode = currentNode.parent;
+    }
+    return true;
+  });
+}
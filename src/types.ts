@@ -5,9 +5,12 @@ export interface CreateRectanglesHandler extends EventHandler {
   handler: (count: number) => void;
 }
 
-export interface GetColorVariablesHandler extends EventHandler {
-  name: "GET_COLOR_VARIABLES";
-  handler: (options: { collectionId: string | null }) => void;
+export interface GetVariablesHandler extends EventHandler {
+  name: "GET_VARIABLES";
+  handler: (options: {
+    collectionId: string | null;
+    resolvedTypes: VariableType[] | null;
+  }) => void;
 }
 
 export interface GetCollectionsHandler extends EventHandler {
@@ -15,19 +18,88 @@ export interface GetCollectionsHandler extends EventHandler {
   handler: () => void;
 }
 
+/**
+ * Lists the collections again, with the library collections of the remote
+ * variables used on the pages of a search scope
+ */
+export interface FindLibraryVariablesHandler extends EventHandler {
+  name: "FIND_LIBRARY_VARIABLES";
+  handler: (options: { scope: SearchScope }) => void;
+}
+
 export interface CollectionsResultHandler extends EventHandler {
   name: "COLLECTIONS_RESULT";
   handler: (collections: VariableCollection[]) => void;
 }
 
-export interface ColorVariablesResultHandler extends EventHandler {
-  name: "COLOR_VARIABLES_RESULT";
-  handler: (colorVariables: ColorVariable[]) => void;
+export interface VariablesResultHandler extends EventHandler {
+  name: "VARIABLES_RESULT";
+  handler: (variables: VariableInfo[]) => void;
+}
+
+/**
+ * How found bindings are collapsed into result rows
+ */
+export type ResultGranularity =
+  | "layer"
+  | "instance"
+  | "mainComponent"
+  | "componentSet";
+
+export interface ScanOptions {
+  /**
+   * Also match variables whose alias chain, in any mode, resolves to a searched variable
+   */
+  includeAliases?: boolean;
+  /**
+   * Scan hidden layers and the content of hidden containers
+   */
+  includeHidden?: boolean;
+  /**
+   * Scan locked layers and the content of locked containers
+   */
+  includeLocked?: boolean;
+  /**
+   * Also scan local main components and variants, reporting bindings on the
+   * definition itself instead of only in its instances
+   */
+  includeComponentDefinitions?: boolean;
+  /**
+   * Also report unbound fills, strokes, effect colors, padding, spacing and radii
+   * whose raw value equals a searched variable's value in some mode
+   */
+  includeUnboundMatches?: boolean;
+  /**
+   * Maximum difference per color channel (0-255) for unbound matches, 1 by default
+   */
+  colorTolerance?: number;
+  /**
+   * Maximum absolute difference for numeric unbound matches, 0.01 by default
+   */
+  numberTolerance?: number;
 }
 
+/**
+ * Part of the document a search covers
+ */
+export type SearchScope =
+  | { type: "selection" }
+  | { type: "container"; nodeId: string }
+  | { type: "pages"; pageIds: string[] };
+
 export interface FindBoundNodesHandler extends EventHandler {
   name: "FIND_BOUND_NODES";
-  handler: (options: { variableIds: string[]; pageId?: string | null }) => void;
+  handler: (options: {
+    variableIds: string[];
+    scope?: SearchScope;
+    granularity?: ResultGranularity;
+    scanOptions?: ScanOptions;
+    /**
+     * Draw the result table on the canvas, true by default; the results panel
+     * of the plugin lists the results either way
+     */
+    drawResultTable?: boolean;
+  }) => void;
 }
 
 export interface FindBoundNodesCompleteHandler extends EventHandler {
@@ -42,46 +114,307 @@ export interface SearchProgressHandler extends EventHandler {
     total: number;
     percentage: number;
     nodesFound: number;
-    currentVariableName?: string;
-    currentVariableIndex?: number;
+    nodesPerSecond?: number;
+    // Estimated from the layers scanned so far; null until it can be estimated
+    secondsRemaining?: number | null;
     totalVariables?: number;
+    scopeLabel?: string;
+    /**
+     * Set while the usage indexes of the pages are checked before the search;
+     * current and total then count pages
+     */
+    indexing?: boolean;
   }) => void;
 }
 
+/**
+ * One result row as sent to the UI while searching
+ */
+export interface StreamingResult {
+  variableId: string;
+  variableName: string;
+  instanceNode: {
+    id: string;
+    name: string;
+    type: string;
+    pageName: string;
+    /**
+     * Null for layers that are not on a page of this file
+     */
+    pageId: string | null;
+  };
+  viaStyleName?: string;
+  aliasPath?: string;
+  resolvedMode?: ResolvedModeInfo;
+  hidden?: boolean;
+  locked?: boolean;
+  inDefinition?: boolean;
+  instanceCount?: number;
+}
+
 export interface StreamingResultHandler extends EventHandler {
   name: "STREAMING_RESULT";
-  handler: (result: {
+  handler: (result: StreamingResult) => void;
+}
+
+/**
+ * One row of the results panel, sent for every row once a search ends
+ */
+export interface SearchResultRow extends StreamingResult {
+  boundProperties: string[];
+  propertyPath: string;
+  occurrences: number;
+  unboundMatch?: { modeName: string };
+  formerlyBound?: boolean;
+}
+
+export interface SearchResultsHandler extends EventHandler {
+  name: "SEARCH_RESULTS";
+  handler: (results: SearchResultRow[]) => void;
+}
+
+/**
+ * Selects a layer and zooms to it, switching to its page if needed
+ */
+export interface FocusNodeHandler extends EventHandler {
+  name: "FOCUS_NODE";
+  handler: (nodeId: string) => void;
+}
+
+/**
+ * Selects result layers: those on the current page, or those on every page,
+ * switching to a page that has some
+ */
+export interface SelectResultsHandler extends EventHandler {
+  name: "SELECT_RESULTS";
+  handler: (options: { nodeIds: string[]; allPages: boolean }) => void;
+}
+
+export interface AuditUnusedHandler extends EventHandler {
+  name: "AUDIT_UNUSED";
+  handler: (options: { collectionIds: string[]; scope?: SearchScope }) => void;
+}
+
+export interface AuditUnusedCompleteHandler extends EventHandler {
+  name: "AUDIT_UNUSED_COMPLETE";
+  handler: (
+    summary: {
+      totalVariables: number;
+      unusedCount: number;
+      aliasOnlyCount: number;
+      styleOnlyCount: number;
+    } | null
+  ) => void;
+}
+
+/**
+ * A binding a replacement could not update
+ */
+export interface ReplacementFailure {
+  nodeId: string;
+  nodeName: string;
+  property: string;
+  reason: string;
+}
+
+/**
+ * Outcome of a variable replacement, or of its dry run
+ */
+export interface ReplacementReport {
+  dryRun: boolean;
+  sourceVariableName: string;
+  targetVariableName: string;
+  nodeCount: number;
+  bindingCount: number;
+  /**
+   * Bindings to rewrite per property kind, e.g. "fills.color" or "paddingLeft"
+   */
+  countsByProperty: Record<string, number>;
+  /**
+   * Usages through a style or an alias, which are not rebound on the layer
+   */
+  skippedCount: number;
+  updatedCount: number;
+  failures: ReplacementFailure[];
+  error?: string;
+}
+
+export interface ReplaceVariableHandler extends EventHandler {
+  name: "REPLACE_VARIABLE";
+  handler: (options: {
+    sourceVariableId: string;
+    targetVariableId: string;
+    scope?: SearchScope;
+    scanOptions?: ScanOptions;
+    dryRun: boolean;
+  }) => void;
+}
+
+export interface ReplaceVariableResultHandler extends EventHandler {
+  name: "REPLACE_VARIABLE_RESULT";
+  handler: (report: ReplacementReport) => void;
+}
+
+/**
+ * Outcome of detaching a variable from the layers bound to it
+ */
+export interface DetachReport {
+  variableName: string;
+  nodeCount: number;
+  bindingCount: number;
+  /**
+   * Usages through a style or an alias, which are not detached from the layer
+   */
+  skippedCount: number;
+  updatedCount: number;
+  failures: ReplacementFailure[];
+  error?: string;
+}
+
+export interface DetachVariableHandler extends EventHandler {
+  name: "DETACH_VARIABLE";
+  handler: (options: {
+    variableId: string;
+    scope?: SearchScope;
+    scanOptions?: ScanOptions;
+  }) => void;
+}
+
+export interface DetachVariableResultHandler extends EventHandler {
+  name: "DETACH_VARIABLE_RESULT";
+  handler: (report: DetachReport) => void;
+}
+
+export interface SetDeprecationHandler extends EventHandler {
+  name: "SET_DEPRECATION";
+  handler: (options: {
     variableId: string;
-    variableName: string;
-    instanceNode: {
-      id: string;
-      name: string;
-      type: string;
-      pageName: string;
-    };
+    /**
+     * The registry entry to save, or null to remove the variable from the registry
+     */
+    entry: { replacementVariableId: string | null; note: string } | null;
   }) => void;
 }
 
+export interface DeprecationUpdatedHandler extends EventHandler {
+  name: "DEPRECATION_UPDATED";
+  handler: (update: {
+    variableId: string;
+    deprecation: DeprecationInfo | null;
+  }) => void;
+}
+
+export interface ScanDeprecatedHandler extends EventHandler {
+  name: "SCAN_DEPRECATED";
+  handler: (options: {
+    scope?: SearchScope;
+    granularity?: ResultGranularity;
+    scanOptions?: ScanOptions;
+    /**
+     * Draw the result table on the canvas, true by default; the results panel
+     * of the plugin lists the results either way
+     */
+    drawResultTable?: boolean;
+  }) => void;
+}
+
+export interface SetWatchModeHandler extends EventHandler {
+  name: "SET_WATCH_MODE";
+  handler: (options: { enabled: boolean }) => void;
+}
+
+/**
+ * Result rows that appeared or disappeared since the last search, as watch mode
+ * re-checks the layers that change
+ */
+export interface WatchUpdate {
+  added: SearchResultRow[];
+  removed: SearchResultRow[];
+  /**
+   * Current number of result rows of every watched variable
+   */
+  counts: Array<{ variableId: string; variableName: string; count: number }>;
+}
+
+export interface WatchUpdateHandler extends EventHandler {
+  name: "WATCH_UPDATE";
+  handler: (update: WatchUpdate) => void;
+}
+
 export interface CancelSearchHandler extends EventHandler {
   name: "CANCEL_SEARCH";
   handler: () => void;
 }
 
+/**
+ * Pauses the running search; it keeps its position and the results found so far
+ */
+export interface PauseSearchHandler extends EventHandler {
+  name: "PAUSE_SEARCH";
+  handler: () => void;
+}
+
+export interface ResumeSearchHandler extends EventHandler {
+  name: "RESUME_SEARCH";
+  handler: () => void;
+}
+
 export interface CloseHandler extends EventHandler {
   name: "CLOSE";
   handler: () => void;
 }
 
-export interface ColorVariable {
+export type VariableType = "COLOR" | "FLOAT" | "STRING" | "BOOLEAN";
+
+/**
+ * A variable value resolved for a single mode, with aliases followed
+ */
+export type VariableModeValue =
+  | { type: "COLOR"; value: RGBA }
+  | { type: "FLOAT"; value: number }
+  | { type: "STRING"; value: string }
+  | { type: "BOOLEAN"; value: boolean }
+  | { type: "UNRESOLVED"; reason: string };
+
+/**
+ * The mode a found node renders a variable's collection in, and the value it displays
+ */
+export interface ResolvedModeInfo {
+  modeId: string;
+  modeName: string;
+  source: "explicit" | "inherited" | "default";
+  value: VariableModeValue;
+}
+
+/**
+ * Why a variable is deprecated and what replaces it
+ */
+export interface DeprecationInfo {
+  replacementVariableId: string | null;
+  replacementVariableName: string | null;
+  note: string;
+  /**
+   * Deprecated by "[deprecated]" in its description only, with no registry entry
+   */
+  fromDescription: boolean;
+}
+
+export interface VariableInfo {
   id: string;
   name: string;
-  resolvedType: string;
-  valuesByMode: { [key: string]: RGBA | string };
+  resolvedType: VariableType;
+  valuesByMode: { [key: string]: VariableModeValue };
   defaultModeId: string;
   modes: { id: string; name: string }[];
   description: string;
   isLocal: boolean;
   libraryName?: string;
+  deprecation?: DeprecationInfo;
+  /**
+   * Set for library variables this file does not use: they are listed from the
+   * library without importing them, so they have no values and cannot be searched
+   */
+  notInFile?: boolean;
 }
 
 export interface RGBA {
@@ -94,6 +427,11 @@ export interface RGBA {
 export interface VariableCollection {
   id: string;
   name: string;
+  /**
+   * False for collections from a library, whose variables are remote in this file
+   */
+  isLocal: boolean;
+  libraryName?: string;
 }
 
 export interface Page {
@@ -101,6 +439,31 @@ export interface Page {
   name: string;
 }
 
+/**
+ * A top-level frame or a section that a search can be scoped to
+ */
+export interface ScopeContainer {
+  id: string;
+  name: string;
+  type: "FRAME" | "SECTION";
+  pageName: string;
+}
+
+export interface GetScopeContainersHandler extends EventHandler {
+  name: "GET_SCOPE_CONTAINERS";
+  handler: () => void;
+}
+
+export interface ScopeContainersResultHandler extends EventHandler {
+  name: "SCOPE_CONTAINERS_RESULT";
+  handler: (containers: ScopeContainer[]) => void;
+}
+
+export interface SelectionChangedHandler extends EventHandler {
+  name: "SELECTION_CHANGED";
+  handler: (selection: { count: number }) => void;
+}
+
 export interface GetPagesHandler extends EventHandler {
   name: "GET_PAGES";
   handler: () => void;
@@ -108,5 +471,14 @@ export interface GetPagesHandler extends EventHandler {
 
 export interface PagesResultHandler extends EventHandler {
   name: "PAGES_RESULT";
-  handler: (result: { pages: Page[]; currentPageId: string | null }) => void;
+  handler: (result: {
+    pages: Page[];
+    currentPageId: string | null;
+    savedPageIds: string[] | null;
+  }) => void;
+}
+
+export interface SavePageSelectionHandler extends EventHandler {
+  name: "SAVE_PAGE_SELECTION";
+  handler: (pageIds: string[]) => void;
 }
@@ -14,31 +14,181 @@ import {
 } from "@create-figma-plugin/ui";
 import { emit, on } from "@create-figma-plugin/utilities";
 import { h, Fragment } from "preact";
-import { useCallback, useState, useEffect } from "preact/hooks";
+import { useCallback, useState, useEffect, useRef } from "preact/hooks";
 
 import {
   CloseHandler,
   CreateRectanglesHandler,
-  GetColorVariablesHandler,
-  ColorVariablesResultHandler,
+  GetVariablesHandler,
+  VariablesResultHandler,
   FindBoundNodesHandler,
   FindBoundNodesCompleteHandler,
   SearchProgressHandler,
   StreamingResultHandler,
   CancelSearchHandler,
+  PauseSearchHandler,
+  ResumeSearchHandler,
   GetCollectionsHandler,
+  FindLibraryVariablesHandler,
   CollectionsResultHandler,
   GetPagesHandler,
   PagesResultHandler,
-  ColorVariable,
+  SavePageSelectionHandler,
+  AuditUnusedHandler,
+  AuditUnusedCompleteHandler,
+  ReplaceVariableHandler,
+  ReplaceVariableResultHandler,
+  ReplacementReport,
+  DetachVariableHandler,
+  DetachVariableResultHandler,
+  SetDeprecationHandler,
+  DeprecationUpdatedHandler,
+  ScanDeprecatedHandler,
+  DetachReport,
+  GetScopeContainersHandler,
+  ScopeContainersResultHandler,
+  SelectionChangedHandler,
+  ScopeContainer,
+  SearchScope,
+  SetWatchModeHandler,
+  StreamingResult,
+  SearchResultRow,
+  SearchResultsHandler,
+  FocusNodeHandler,
+  SelectResultsHandler,
+  VariableInfo,
+  VariableModeValue,
+  VariableType,
   VariableCollection,
   Page,
+  ScanOptions,
+  ResultGranularity,
+  WatchUpdate,
+  WatchUpdateHandler,
 } from "./types";
+import { formatNumber, formatVariableModeValue } from "./formatValue";
 
-function Plugin() {
-  const [colorVariables, setColorVariables] = useState<ColorVariable[]>([]);
+const variableTypeOptions: Array<{ value: string; text: string }> = [
+  { value: "", text: "All types" },
+  { value: "COLOR", text: "Color" },
+  { value: "FLOAT", text: "Number" },
+  { value: "STRING", text: "String" },
+  { value: "BOOLEAN", text: "Boolean" },
+];
+
+const granularityOptions: Array<{ value: ResultGranularity; text: string }> = [
+  { value: "layer", text: "Layer" },
+  { value: "instance", text: "Top-level instance" },
+  { value: "mainComponent", text: "Main component" },
+  { value: "componentSet", text: "Component set" },
+];
+
+const scopeTypeOptions: Array<{ value: SearchScope["type"]; text: string }> = [
+  { value: "selection", text: "Current selection" },
+  { value: "container", text: "Frame or section" },
+  { value: "pages", text: "Pages" },
+];
+
+type ResultSortOrder = "document" | "name" | "type";
+
+const resultSortOptions: Array<{ value: ResultSortOrder; text: string }> = [
+  { value: "document", text: "Document order" },
+  { value: "name", text: "Layer name" },
+  { value: "type", text: "Layer type" },
+];
+
+/**
+ * Result rows of one variable, grouped by page in the order the pages were searched
+ */
+interface ResultGroup {
+  variableId: string;
+  variableName: string;
+  pages: Array<{
+    pageId: string | null;
+    pageName: string;
+    rows: SearchResultRow[];
+  }>;
+}
+
+/**
+ * Filters the result rows on layer, page, variable and property names, and groups
+ * them by variable, then by page
+ */
+function groupResultRows(
+  rows: SearchResultRow[],
+  filter: string,
+  sortOrder: ResultSortOrder
+): ResultGroup[] {
+  const query = filter.trim().toLowerCase();
+  const groups: ResultGroup[] = [];
+
+  rows.forEach((row) => {
+    if (
+      query &&
+      ![
+        row.instanceNode.name,
+        row.instanceNode.type,
+        row.instanceNode.pageName,
+        row.variableName,
+        ...row.boundProperties,
+      ].some((text) => text.toLowerCase().includes(query))
+    ) {
+      return;
+    }
+
+    let group = groups.find((group) => group.variableId === row.variableId);
+    if (!group) {
+      group = {
+        variableId: row.variableId,
+        variableName: row.variableName,
+        pages: [],
+      };
+      groups.push(group);
+    }
+    // Pages can share a name; rows off any page are told apart by name
+    const { pageId, pageName } = row.instanceNode;
+    let page = group.pages.find(
+      (page) =>
+        page.pageId === pageId &&
+        (pageId !== null || page.pageName === pageName)
+    );
+    if (!page) {
+      page = { pageId, pageName, rows: [] };
+      group.pages.push(page);
+    }
+    page.rows.push(row);
+  });
+
+  // Rows arrive in document order, which the stable sort keeps for equal names
+  if (sortOrder !== "document") {
+    const sortKey = (row: SearchResultRow) =>
+      sortOrder === "name" ? row.instanceNode.name : row.instanceNode.type;
+    groups.forEach((group) =>
+      group.pages.forEach((page) =>
+        page.rows.sort((a, b) => sortKey(a).localeCompare(sortKey(b)))
+      )
+    );
+  }
+
+  return groups;
+}
+
+/**
+ * Formats a duration in seconds for the search ETA, e.g. "45s" or "2m 05s"
+ */
+function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+}
+
+function Plugin(props: { selectionCount: number }) {
+  const [variables, setVariables] = useState<VariableInfo[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
   const [searchQuery, setSearchQuery] = useState<string>("");
   const [selectedVariables, setSelectedVariables] = useState<Set<string>>(
     new Set()
@@ -46,8 +196,48 @@ function Plugin() {
   const [collections, setCollections] = useState<VariableCollection[]>([]);
   const [selectedCollectionId, setSelectedCollectionId] =
     useState<string | null>(null);
+  // The first local collection is only picked by default once: null also
+  // stands for "All collections"
+  const hasDefaultCollection = useRef<boolean>(false);
+  const [selectedVariableType, setSelectedVariableType] =
+    useState<VariableType | null>(null);
   const [pages, setPages] = useState<Page[]>([]);
-  const [selectedPageId, setSelectedPageId] = useState<string | null>(null);
+  const [selectedPageIds, setSelectedPageIds] = useState<Set<string>>(
+    new Set()
+  );
+  const [scopeType, setScopeType] = useState<SearchScope["type"]>("pages");
+  const [selectionCount, setSelectionCount] = useState<number>(
+    props.selectionCount
+  );
+  const [scopeContainers, setScopeContainers] = useState<ScopeContainer[]>([]);
+  const [containerQuery, setContainerQuery] = useState<string>("");
+  const [selectedContainerId, setSelectedContainerId] =
+    useState<string | null>(null);
+  const [scanOptions, setScanOptions] = useState<ScanOptions>({
+    includeAliases: false,
+    includeHidden: false,
+    includeLocked: false,
+    includeComponentDefinitions: false,
+    includeUnboundMatches: false,
+  });
+  const [colorTolerance, setColorTolerance] = useState<string>("1");
+  const [numberTolerance, setNumberTolerance] = useState<string>("0.01");
+  const [auditSummary, setAuditSummary] = useState<{
+    totalVariables: number;
+    unusedCount: number;
+    aliasOnlyCount: number;
+    styleOnlyCount: number;
+  } | null>(null);
+  const [replacementTargetId, setReplacementTargetId] =
+    useState<string | null>(null);
+  const [replacementReport, setReplacementReport] =
+    useState<ReplacementReport | null>(null);
+  const [isConfirmingDetach, setIsConfirmingDetach] = useState<boolean>(false);
+  const [deprecationReplacementId, setDeprecationReplacementId] =
+    useState<string | null>(null);
+  const [deprecationNote, setDeprecationNote] = useState<string>("");
+  const [detachReport, setDetachReport] = useState<DetachReport | null>(null);
+  const [granularity, setGranularity] = useState<ResultGranularity>("instance");
 
   // PHASE 2: Progress tracking state
   const [searchProgress, setSearchProgress] =
@@ -56,31 +246,44 @@ function Plugin() {
       total: number;
       percentage: number;
       nodesFound: number;
-      currentVariableName?: string;
-      currentVariableIndex?: number;
+      nodesPerSecond?: number;
+      secondsRemaining?: number | null;
       totalVariables?: number;
+      scopeLabel?: string;
+      indexing?: boolean;
     } | null>(null);
   const [streamingResults, setStreamingResults] = useState<
-    Array<{
-      variableId: string;
-      variableName: string;
-      instanceNode: {
-        id: string;
-        name: string;
-        type: string;
-        pageName: string;
-      };
-    }>
+    Array<StreamingResult>
+  >([]);
+
+  // Results panel: every row of the last search, once it ends
+  const [searchResults, setSearchResults] = useState<SearchResultRow[] | null>(
+    null
+  );
+  const [resultFilter, setResultFilter] = useState<string>("");
+  const [resultSortOrder, setResultSortOrder] =
+    useState<ResultSortOrder>("document");
+  const [drawResultTable, setDrawResultTable] = useState<boolean>(true);
+  // Index of the row last focused in the listed rows, for next/previous
+  const [resultPosition, setResultPosition] = useState<number | null>(null);
+
+  // Watch mode: live row counts and the latest rows added or removed
+  const [isWatching, setIsWatching] = useState<boolean>(false);
+  const [liveCounts, setLiveCounts] = useState<WatchUpdate["counts"] | null>(
+    null
+  );
+  const [watchEvents, setWatchEvents] = useState<
+    Array<{ added: boolean; result: StreamingResult }>
   >([]);
 
   useEffect(() => {
     emit<GetCollectionsHandler>("GET_COLLECTIONS");
     emit<GetPagesHandler>("GET_PAGES");
 
-    const unsubscribe1 = on<ColorVariablesResultHandler>(
-      "COLOR_VARIABLES_RESULT",
-      (variables: ColorVariable[]) => {
-        setColorVariables(variables);
+    const unsubscribe1 = on<VariablesResultHandler>(
+      "VARIABLES_RESULT",
+      (variables: VariableInfo[]) => {
+        setVariables(variables);
         setIsLoading(false);
       }
     );
@@ -89,8 +292,18 @@ function Plugin() {
       "COLLECTIONS_RESULT",
       (collections: VariableCollection[]) => {
         setCollections(collections);
-        if (collections.length > 0 && selectedCollectionId === null) {
-          setSelectedCollectionId(collections[0].id);
+        // Library collections are only loaded on request, as listing them
+        // queries the team library
+        const firstLocalCollection = collections.find(
+          (collection) => collection.isLocal
+        );
+        // The listing is sent again later, e.g. with the library variables of
+        // other pages; a collection already picked is kept
+        if (firstLocalCollection && !hasDefaultCollection.current) {
+          hasDefaultCollection.current = true;
+          setSelectedCollectionId(
+            (current) => current ?? firstLocalCollection.id
+          );
         }
       }
     );
@@ -99,17 +312,31 @@ function Plugin() {
       "FIND_BOUND_NODES_COMPLETE",
       () => {
         setIsSearching(false);
+        setIsPaused(false);
         setSearchProgress(null);
       }
     );
 
     const unsubscribe4 = on<PagesResultHandler>(
       "PAGES_RESULT",
-      (result: { pages: Page[]; currentPageId: string | null }) => {
+      (result: {
+        pages: Page[];
+        currentPageId: string | null;
+        savedPageIds: string[] | null;
+      }) => {
         setPages(result.pages);
+        // Restore the pages chosen last time in this file
+        const pageIds = new Set(result.pages.map((page) => page.id));
+        const savedPageIds = (result.savedPageIds || []).filter((pageId) =>
+          pageIds.has(pageId)
+        );
+        if (savedPageIds.length > 0) {
+          setSelectedPageIds(new Set(savedPageIds));
+          return;
+        }
         // PHASE 1 OPTIMIZATION: Default to current page for faster searches
-        if (result.currentPageId && selectedPageId === null) {
-          setSelectedPageId(result.currentPageId);
+        if (result.currentPageId) {
+          setSelectedPageIds(new Set([result.currentPageId]));
         }
       }
     );
@@ -130,6 +357,114 @@ function Plugin() {
       }
     );
 
+    const unsubscribe14 = on<SearchResultsHandler>(
+      "SEARCH_RESULTS",
+      (results) => {
+        setSearchResults(results);
+        setResultPosition(null);
+      }
+    );
+
+    const unsubscribe7 = on<ScopeContainersResultHandler>(
+      "SCOPE_CONTAINERS_RESULT",
+      (containers: ScopeContainer[]) => {
+        setScopeContainers(containers);
+      }
+    );
+
+    const unsubscribe9 = on<AuditUnusedCompleteHandler>(
+      "AUDIT_UNUSED_COMPLETE",
+      (summary) => {
+        setIsSearching(false);
+        setIsPaused(false);
+        setSearchProgress(null);
+        setAuditSummary(summary);
+      }
+    );
+
+    const unsubscribe10 = on<ReplaceVariableResultHandler>(
+      "REPLACE_VARIABLE_RESULT",
+      (report) => {
+        setIsSearching(false);
+        setIsPaused(false);
+        setSearchProgress(null);
+        setReplacementReport(report);
+      }
+    );
+
+    const unsubscribe12 = on<DeprecationUpdatedHandler>(
+      "DEPRECATION_UPDATED",
+      ({ variableId, deprecation }) => {
+        setVariables((prev) =>
+          prev.map((variable) =>
+            variable.id === variableId
+              ? { ...variable, deprecation: deprecation || undefined }
+              : variable
+          )
+        );
+      }
+    );
+
+    const unsubscribe11 = on<DetachVariableResultHandler>(
+      "DETACH_VARIABLE_RESULT",
+      (report) => {
+        setIsSearching(false);
+        setIsPaused(false);
+        setSearchProgress(null);
+        setDetachReport(report);
+      }
+    );
+
+    const unsubscribe13 = on<WatchUpdateHandler>(
+      "WATCH_UPDATE",
+      (update) => {
+        setLiveCounts(update.counts);
+        // An update without changes starts over from the results of a new search
+        if (update.added.length === 0 && update.removed.length === 0) {
+          setWatchEvents([]);
+          return;
+        }
+        const isRemoved = (result: StreamingResult) =>
+          update.removed.some(
+            (removed) =>
+              removed.variableId === result.variableId &&
+              removed.instanceNode.id === result.instanceNode.id &&
+              removed.viaStyleName === result.viaStyleName &&
+              removed.aliasPath === result.aliasPath
+          );
+        setStreamingResults((prev) => [
+          ...prev.filter((result) => !isRemoved(result)),
+          ...update.added,
+        ]);
+        // Unbound matches and detached layers are not watched, so they stay
+        setSearchResults((prev) =>
+          prev
+            ? [
+                ...prev.filter(
+                  (row) =>
+                    row.unboundMatch || row.formerlyBound || !isRemoved(row)
+                ),
+                ...update.added,
+              ]
+            : prev
+        );
+        // Rows move around as the list changes, so stepping starts over
+        setResultPosition(null);
+        setWatchEvents((prev) => [
+          ...prev,
+          ...update.added.map((result) => ({ added: true, result })),
+          ...update.removed.map((result) => ({ added: false, result })),
+        ]);
+      }
+    );
+
+    const unsubscribe8 = on<SelectionChangedHandler>(
+      "SELECTION_CHANGED",
+      (selection) => {
+        setSelectionCount(selection.count);
+      }
+    );
+
     return () => {
       unsubscribe1();
       unsubscribe2();
@@ -137,15 +472,24 @@ function Plugin() {
       unsubscribe4();
       unsubscribe5();
       unsubscribe6();
+      unsubscribe7();
+      unsubscribe8();
+      unsubscribe9();
+      unsubscribe10();
+      unsubscribe11();
+      unsubscribe12();
+      unsubscribe13();
+      unsubscribe14();
     };
   }, []);
 
-  const handleGetColorVariables = useCallback(() => {
+  const handleGetVariables = useCallback(() => {
     setIsLoading(true);
-    emit<GetColorVariablesHandler>("GET_COLOR_VARIABLES", {
+    emit<GetVariablesHandler>("GET_VARIABLES", {
       collectionId: selectedCollectionId,
+      resolvedTypes: selectedVariableType ? [selectedVariableType] : null,
     });
-  }, [selectedCollectionId]);
+  }, [selectedCollectionId, selectedVariableType]);
 
   const handleSearchChange = useCallback(
     (event: { currentTarget: { value: string } }) => {
@@ -155,7 +499,7 @@ function Plugin() {
   );
 
   // Filter variables based on search query and sort alphabetically
-  const filteredVariables = colorVariables
+  const filteredVariables = variables
     .filter((variable) =>
       variable.name.toLowerCase().includes(searchQuery.toLowerCase())
     )
@@ -177,13 +521,30 @@ function Plugin() {
   );
 
   const handleSelectAll = useCallback(() => {
-    setSelectedVariables(new Set(filteredVariables.map((v) => v.id)));
+    setSelectedVariables(
+      new Set(filteredVariables.filter((v) => !v.notInFile).map((v) => v.id))
+    );
   }, [filteredVariables]);
 
   const handleSelectNone = useCallback(() => {
     setSelectedVariables(new Set());
   }, []);
 
+  const searchScope: SearchScope =
+    scopeType === "selection"
+      ? { type: "selection" }
+      : scopeType === "container" && selectedContainerId
+      ? { type: "container", nodeId: selectedContainerId }
+      : { type: "pages", pageIds: Array.from(selectedPageIds) };
+
+  // Remote variables are only looked up on the current page when the plugin
+  // opens; other pages are loaded on request
+  const handleFindLibraryVariables = useCallback(() => {
+    emit<FindLibraryVariablesHandler>("FIND_LIBRARY_VARIABLES", {
+      scope: searchScope,
+    });
+  }, [scopeType, selectedContainerId, selectedPageIds]);
+
   const handleGetSelected = useCallback(() => {
     const selectedVariableIds = Array.from(selectedVariables);
     if (selectedVariableIds.length > 0) {
@@ -193,19 +554,254 @@ function Plugin() {
       setIsSearching(true);
       setSearchProgress(null);
       setStreamingResults([]);
+      setSearchResults(null);
       emit<FindBoundNodesHandler>("FIND_BOUND_NODES", {
         variableIds: selectedVariableIds,
-        pageId: selectedPageId,
+        scope: searchScope,
+        scanOptions: {
+          ...scanOptions,
+          colorTolerance: parseFloat(colorTolerance) || 0,
+          numberTolerance: parseFloat(numberTolerance) || 0,
+        },
+        granularity,
+        drawResultTable,
+      });
+    }
+  }, [
+    selectedVariables,
+    scopeType,
+    selectedContainerId,
+    selectedPageIds,
+    scanOptions,
+    colorTolerance,
+    numberTolerance,
+    granularity,
+    drawResultTable,
+  ]);
+
+  const handleScanOptionChange = useCallback(
+    (option: keyof ScanOptions, checked: boolean) => {
+      setScanOptions((prev) => ({ ...prev, [option]: checked }));
+    },
+    []
+  );
+
+  const handleGranularityChange = useCallback(
+    (event: { currentTarget: { value: string } }) => {
+      const value = event.currentTarget.value as ResultGranularity;
+      setGranularity(value);
+      // Definitions are not searched per layer, and the option is hidden then
+      if (value === "layer") {
+        setScanOptions((prev) => ({
+          ...prev,
+          includeComponentDefinitions: false,
+        }));
+      }
+    },
+    []
+  );
+
+  // Audits the local collection chosen above, or every local collection
+  const handleAuditUnused = useCallback(() => {
+    const collectionIds = selectedCollectionId
+      ? [selectedCollectionId]
+      : collections
+          .filter((collection) => collection.isLocal)
+          .map((collection) => collection.id);
+    console.log(
+      `🧹 Auditing unused variables in ${collectionIds.length} collection(s)...`
+    );
+    setIsSearching(true);
+    setSearchProgress(null);
+    setStreamingResults([]);
+    setAuditSummary(null);
+    emit<AuditUnusedHandler>("AUDIT_UNUSED", {
+      collectionIds,
+      scope: searchScope,
+    });
+  }, [
+    selectedCollectionId,
+    collections,
+    scopeType,
+    selectedContainerId,
+    selectedPageIds,
+  ]);
+
+  // Replacement works on exactly one selected variable
+  const replacementSource =
+    selectedVariables.size === 1
+      ? variables.find((variable) => selectedVariables.has(variable.id)) || null
+      : null;
+  const replacementTargets = replacementSource
+    ? variables
+        .filter(
+          (variable) =>
+            variable.id !== replacementSource.id &&
+            variable.resolvedType === replacementSource.resolvedType &&
+            !variable.notInFile
+        )
+        .sort((a, b) => a.name.localeCompare(b.name))
+    : [];
+
+  const handleReplacementTargetChange = useCallback(
+    (event: { currentTarget: { value: string } }) => {
+      setReplacementTargetId(event.currentTarget.value || null);
+      setReplacementReport(null);
+    },
+    []
+  );
+
+  const handleReplaceVariable = useCallback(
+    (dryRun: boolean) => {
+      if (!replacementSource || !replacementTargetId) {
+        return;
+      }
+      setIsSearching(true);
+      setSearchProgress(null);
+      setStreamingResults([]);
+      setReplacementReport(null);
+      emit<ReplaceVariableHandler>("REPLACE_VARIABLE", {
+        sourceVariableId: replacementSource.id,
+        targetVariableId: replacementTargetId,
+        scope: searchScope,
+        scanOptions,
+        dryRun,
       });
+    },
+    [
+      replacementSource,
+      replacementTargetId,
+      scopeType,
+      selectedContainerId,
+      selectedPageIds,
+      scanOptions,
+    ]
+  );
+
+  // A pending detach confirmation belongs to the variable it was asked for, and
+  // the deprecation form shows the registry entry of the selected variable
+  useEffect(() => {
+    setIsConfirmingDetach(false);
+    setDeprecationReplacementId(
+      replacementSource?.deprecation?.replacementVariableId || null
+    );
+    setDeprecationNote(replacementSource?.deprecation?.note || "");
+    // A deprecated variable suggests its replacement as the replacement target
+    if (replacementSource?.deprecation?.replacementVariableId) {
+      setReplacementTargetId(replacementSource.deprecation.replacementVariableId);
+      setReplacementReport(null);
     }
-  }, [selectedVariables, selectedPageId]);
+  }, [replacementSource?.id]);
+
+  const handleSaveDeprecation = useCallback(
+    (remove: boolean) => {
+      if (!replacementSource) {
+        return;
+      }
+      emit<SetDeprecationHandler>("SET_DEPRECATION", {
+        variableId: replacementSource.id,
+        entry: remove
+          ? null
+          : {
+              replacementVariableId: deprecationReplacementId,
+              note: deprecationNote.trim(),
+            },
+      });
+    },
+    [replacementSource, deprecationReplacementId, deprecationNote]
+  );
+
+  const handleFocusResult = useCallback(
+    (row: SearchResultRow, position: number) => {
+      setResultPosition(position);
+      emit<FocusNodeHandler>("FOCUS_NODE", row.instanceNode.id);
+    },
+    []
+  );
+
+  const handleScanDeprecated = useCallback(() => {
+    console.log("🚫 Scanning usages of deprecated variables...");
+    setIsSearching(true);
+    setSearchProgress(null);
+    setStreamingResults([]);
+    setSearchResults(null);
+    emit<ScanDeprecatedHandler>("SCAN_DEPRECATED", {
+      scope: searchScope,
+      scanOptions: {
+        ...scanOptions,
+        colorTolerance: parseFloat(colorTolerance) || 0,
+        numberTolerance: parseFloat(numberTolerance) || 0,
+      },
+      granularity,
+      drawResultTable,
+    });
+  }, [
+    scopeType,
+    selectedContainerId,
+    selectedPageIds,
+    scanOptions,
+    colorTolerance,
+    numberTolerance,
+    granularity,
+    drawResultTable,
+  ]);
+
+  // Detaching changes every layer bound to the variable, so it asks for a second click
+  const handleDetachVariable = useCallback(() => {
+    if (!replacementSource) {
+      return;
+    }
+    if (!isConfirmingDetach) {
+      setIsConfirmingDetach(true);
+      setDetachReport(null);
+      return;
+    }
+    setIsConfirmingDetach(false);
+    setIsSearching(true);
+    setSearchProgress(null);
+    setStreamingResults([]);
+    setDetachReport(null);
+    emit<DetachVariableHandler>("DETACH_VARIABLE", {
+      variableId: replacementSource.id,
+      scope: searchScope,
+      scanOptions,
+    });
+  }, [
+    replacementSource,
+    isConfirmingDetach,
+    scopeType,
+    selectedContainerId,
+    selectedPageIds,
+    scanOptions,
+  ]);
+
+  const handleWatchModeChange = useCallback((enabled: boolean) => {
+    setIsWatching(enabled);
+    if (!enabled) {
+      setLiveCounts(null);
+      setWatchEvents([]);
+    }
+    emit<SetWatchModeHandler>("SET_WATCH_MODE", { enabled });
+  }, []);
 
   const handleCancelSearch = useCallback(() => {
     emit<CancelSearchHandler>("CANCEL_SEARCH");
     setIsSearching(false);
+    setIsPaused(false);
     setSearchProgress(null);
   }, []);
 
+  // Results streamed so far stay listed while the search is paused
+  const handlePauseSearch = useCallback(() => {
+    emit<PauseSearchHandler>("PAUSE_SEARCH");
+    setIsPaused(true);
+  }, []);
+
+  const handleResumeSearch = useCallback(() => {
+    emit<ResumeSearchHandler>("RESUME_SEARCH");
+    setIsPaused(false);
+  }, []);
+
   const handleCollectionChange = useCallback(
     (event: { currentTarget: { value: string } }) => {
       setSelectedCollectionId(event.currentTarget.value || null);
@@ -213,76 +809,190 @@ function Plugin() {
     []
   );
 
-  const handlePageChange = useCallback(
+  const handleVariableTypeChange = useCallback(
     (event: { currentTarget: { value: string } }) => {
-      setSelectedPageId(event.currentTarget.value || null);
+      setSelectedVariableType(
+        (event.currentTarget.value as VariableType) || null
+      );
     },
     []
   );
 
+  // Every change is saved to the file so the next session starts from it
+  const handlePageSelectionChange = useCallback((pageIds: string[]) => {
+    setSelectedPageIds(new Set(pageIds));
+    emit<SavePageSelectionHandler>("SAVE_PAGE_SELECTION", pageIds);
+  }, []);
 
+  const handlePageToggle = useCallback(
+    (pageId: string, checked: boolean) => {
+      const newSet = new Set(selectedPageIds);
+      if (checked) {
+        newSet.add(pageId);
+      } else {
+        newSet.delete(pageId);
+      }
+      handlePageSelectionChange(Array.from(newSet));
+    },
+    [selectedPageIds, handlePageSelectionChange]
+  );
 
-  const formatColor = (rgba: {
-    r: number;
-    g: number;
-    b: number;
-    a: number;
-  }): string => {
-    const r = Math.round(rgba.r * 255);
-    const g = Math.round(rgba.g * 255);
-    const b = Math.round(rgba.b * 255);
-    return `rgb(${r}, ${g}, ${b})`;
-  };
-
-  const getColorPreview = (
-    variable: ColorVariable
-  ): { color: string; hexValue: string } => {
-    const defaultModeValue = variable.valuesByMode[variable.defaultModeId];
-
-    if (defaultModeValue) {
-      if (
-        typeof defaultModeValue === "object" &&
-        defaultModeValue !== null &&
-        "r" in defaultModeValue
-      ) {
-        const rgba = defaultModeValue as { r: number; g: number; b: number; a: number };
-        const r = Math.round(rgba.r * 255);
-        const g = Math.round(rgba.g * 255);
-        const b = Math.round(rgba.b * 255);
-        const toHex = (n: number) => n.toString(16).padStart(2, '0');
-        const hex = `#${toHex(r)}${toHex(g)}${toHex(b)}`.toUpperCase();
-        
-        return {
-          color: formatColor(rgba),
-          hexValue: hex,
-        };
+  const handleScopeTypeChange = useCallback(
+    (event: { currentTarget: { value: string } }) => {
+      const type = event.currentTarget.value as SearchScope["type"];
+      setScopeType(type);
+      // Frames and sections are listed on demand, as the list can be long
+      if (type === "container") {
+        emit<GetScopeContainersHandler>("GET_SCOPE_CONTAINERS");
       }
+    },
+    []
+  );
+
+  const handleContainerQueryChange = useCallback(
+    (event: { currentTarget: { value: string } }) => {
+      setContainerQuery(event.currentTarget.value);
+    },
+    []
+  );
+
+  const filteredContainers = scopeContainers.filter((container) =>
+    container.name.toLowerCase().includes(containerQuery.toLowerCase())
+  );
+
+  const isScopeReady =
+    (scopeType === "selection" && selectionCount > 0) ||
+    (scopeType === "container" && selectedContainerId !== null) ||
+    (scopeType === "pages" && selectedPageIds.size > 0);
+
+  const renderValuePreview = (value: VariableModeValue | undefined) => {
+    const boxStyle = {
+      width: "32px",
+      height: "32px",
+      borderRadius: "4px",
+      marginRight: "12px",
+      border: "1px solid rgba(0,0,0,0.1)",
+      flexShrink: 0,
+      boxSizing: "border-box" as const,
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      overflow: "hidden",
+    };
+
+    if (value?.type === "COLOR") {
+      const { r, g, b, a } = value.value;
+      return (
+        <div
+          style={{
+            ...boxStyle,
+            backgroundColor: `rgba(${Math.round(r * 255)}, ${Math.round(
+              g * 255
+            )}, ${Math.round(b * 255)}, ${a})`,
+            boxShadow: "inset 0 1px 2px rgba(0,0,0,0.05)",
+          }}
+        ></div>
+      );
     }
-    return { color: "rgb(200, 200, 200)", hexValue: "#CCCCCC" };
+
+    if (value?.type === "FLOAT") {
+      return (
+        <div
+          style={{
+            ...boxStyle,
+            backgroundColor: "#f0f0f0",
+            fontSize: "10px",
+            fontWeight: "600",
+            fontFamily: "monospace",
+            color: "#333",
+          }}
+        >
+          {formatNumber(value.value)}
+        </div>
+      );
+    }
+
+    if (value?.type === "STRING") {
+      return (
+        <div
+          style={{
+            ...boxStyle,
+            backgroundColor: "#f0f0f0",
+            fontSize: "14px",
+            fontWeight: "600",
+            color: "#666",
+          }}
+        >
+          Aa
+        </div>
+      );
+    }
+
+    if (value?.type === "BOOLEAN") {
+      return (
+        <div style={{ ...boxStyle, border: "none" }}>
+          <div
+            style={{
+              width: "28px",
+              height: "16px",
+              borderRadius: "8px",
+              backgroundColor: value.value ? "#2196f3" : "#ccc",
+              position: "relative",
+              transition: "background-color 0.15s ease",
+            }}
+          >
+            <div
+              style={{
+                position: "absolute",
+                top: "2px",
+                left: value.value ? "14px" : "2px",
+                width: "12px",
+                height: "12px",
+                borderRadius: "50%",
+                backgroundColor: "white",
+              }}
+            ></div>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div style={{ ...boxStyle, backgroundColor: "rgb(200, 200, 200)" }}></div>
+    );
   };
 
-  const getDisplayValue = (variable: ColorVariable): string => {
-    // Use the default mode's value for display
-    const defaultModeValue = variable.valuesByMode[variable.defaultModeId];
-
-    if (defaultModeValue) {
-      // Check if it's an RGBA color
-      if (
-        typeof defaultModeValue === "object" &&
-        defaultModeValue !== null &&
-        "r" in defaultModeValue
-      ) {
-        return formatColor(
-          defaultModeValue as { r: number; g: number; b: number; a: number }
-        );
-      }
+  const resultGroups = searchResults
+    ? groupResultRows(searchResults, resultFilter, resultSortOrder)
+    : [];
+  // Rows in the order they are listed, which next/previous steps through
+  const listedResultRows = resultGroups.flatMap((group) =>
+    group.pages.flatMap((page) => page.rows)
+  );
+  const resultPositions = new Map(
+    listedResultRows.map((row, index) => [row, index])
+  );
 
-      // If it's a string (variable alias), return the string
-      if (typeof defaultModeValue === "string") {
-        return defaultModeValue;
-      }
+  const handleStepResult = (step: number) => {
+    if (listedResultRows.length === 0) {
+      return;
     }
-    return "No value";
+    // Wraps around at either end; the first step starts at either end
+    const position =
+      resultPosition === null
+        ? step > 0
+          ? 0
+          : listedResultRows.length - 1
+        : (resultPosition + step + listedResultRows.length) %
+          listedResultRows.length;
+    handleFocusResult(listedResultRows[position], position);
+  };
+
+  const handleSelectResults = (allPages: boolean) => {
+    emit<SelectResultsHandler>("SELECT_RESULTS", {
+      nodeIds: listedResultRows.map((row) => row.instanceNode.id),
+      allPages,
+    });
   };
 
   return (
@@ -301,10 +1011,26 @@ function Plugin() {
             onChange={handleCollectionChange}
             options={[
               { value: "", text: "All collections" },
-              ...collections.map((collection) => ({
-                value: collection.id,
-                text: collection.name,
-              })),
+              ...collections
+                .filter((collection) => collection.isLocal)
+                .map((collection) => ({
+                  value: collection.id,
+                  text: collection.name,
+                })),
+              ...(collections.some((collection) => !collection.isLocal)
+                ? [
+                    "-" as const,
+                    { header: "Libraries" },
+                    ...collections
+                      .filter((collection) => !collection.isLocal)
+                      .map((collection) => ({
+                        value: collection.id,
+                        text: collection.libraryName
+                          ? `${collection.name} (${collection.libraryName})`
+                          : collection.name,
+                      })),
+                  ]
+                : []),
             ]}
             value={selectedCollectionId || ""}
           />
@@ -313,15 +1039,34 @@ function Plugin() {
       )}
       <Button
         fullWidth
-        onClick={handleGetColorVariables}
+        onClick={handleFindLibraryVariables}
+        secondary
+        disabled={!isScopeReady}
+      >
+        Find Library Variables in Search Scope
+      </Button>
+      <VerticalSpace space="small" />
+      <Text>
+        <Muted>Variable type:</Muted>
+      </Text>
+      <VerticalSpace space="extraSmall" />
+      <Dropdown
+        onChange={handleVariableTypeChange}
+        options={variableTypeOptions}
+        value={selectedVariableType || ""}
+      />
+      <VerticalSpace space="small" />
+      <Button
+        fullWidth
+        onClick={handleGetVariables}
         secondary
         disabled={isLoading}
       >
-        {isLoading ? "Loading..." : "Get Color Variables"}
+        {isLoading ? "Loading..." : "Get Variables"}
       </Button>
       <VerticalSpace space="medium" />
 
-      {colorVariables.length > 0 && (
+      {variables.length > 0 && (
         <div
           style={{
             display: "flex",
@@ -332,8 +1077,8 @@ function Plugin() {
         >
           <Text>
             <Muted>
-              Found {colorVariables.length} color variable
-              {colorVariables.length !== 1 ? "s" : ""}:
+              Found {variables.length} variable
+              {variables.length !== 1 ? "s" : ""}:
             </Muted>
           </Text>
           <VerticalSpace space="small" />
@@ -346,7 +1091,7 @@ function Plugin() {
           {searchQuery && (
             <Text>
               <Muted>
-                Showing {filteredVariables.length} of {colorVariables.length}{" "}
+                Showing {filteredVariables.length} of {variables.length}{" "}
                 variables
               </Muted>
             </Text>
@@ -375,7 +1120,8 @@ function Plugin() {
           >
             {filteredVariables.length > 0 ? (
               filteredVariables.map((variable) => {
-                const preview = getColorPreview(variable);
+                const defaultValue =
+                  variable.valuesByMode[variable.defaultModeId];
                 const isSelected = selectedVariables.has(variable.id);
                 return (
                   <div
@@ -390,15 +1136,18 @@ function Plugin() {
                       border: isSelected
                         ? "2px solid #2196f3"
                         : "1px solid #e0e0e0",
-                      cursor: "pointer",
+                      cursor: variable.notInFile ? "default" : "pointer",
+                      opacity: variable.notInFile ? 0.6 : 1,
                       transition: "all 0.15s ease",
                       boxShadow: isSelected ? "0 2px 4px rgba(33, 150, 243, 0.1)" : "none",
                     }}
                     onClick={() =>
+                      !variable.notInFile &&
                       handleVariableSelect(variable.id, !isSelected)
                     }
                   >
                     <Checkbox
+                      disabled={variable.notInFile}
                       onChange={(event) =>
                         handleVariableSelect(
                           variable.id,
@@ -410,18 +1159,7 @@ function Plugin() {
                     >
                       <span></span>
                     </Checkbox>
-                    <div
-                      style={{
-                        width: "32px",
-                        height: "32px",
-                        backgroundColor: preview.color,
-                        borderRadius: "4px",
-                        marginRight: "12px",
-                        border: "1px solid rgba(0,0,0,0.1)",
-                        flexShrink: 0,
-                        boxShadow: "inset 0 1px 2px rgba(0,0,0,0.05)",
-                      }}
-                    ></div>
+                    {renderValuePreview(defaultValue)}
                     <div style={{ flex: 1, minWidth: 0 }}>
                       <div
                         style={{
@@ -435,6 +1173,26 @@ function Plugin() {
                         }}
                       >
                         {variable.name}
+                        {variable.deprecation && (
+                          <span
+                            title={
+                              variable.deprecation.replacementVariableName
+                                ? `Use ${variable.deprecation.replacementVariableName}`
+                                : variable.deprecation.note || "Deprecated"
+                            }
+                            style={{
+                              marginLeft: "6px",
+                              padding: "1px 5px",
+                              borderRadius: "4px",
+                              backgroundColor: "#fdecea",
+                              color: "#d32f2f",
+                              fontSize: "10px",
+                              fontWeight: "600",
+                            }}
+                          >
+                            deprecated
+                          </span>
+                        )}
                         {!variable.isLocal && (
                           <span style={{ color: "#999", fontWeight: "normal", fontSize: "11px" }}>
                             {" "}
@@ -451,9 +1209,16 @@ function Plugin() {
                           fontSize: "11px",
                           color: "#666",
                           fontFamily: "monospace",
+                          overflow: "hidden",
+                          textOverflow: "ellipsis",
+                          whiteSpace: "nowrap",
                         }}
                       >
-                        {preview.hexValue}
+                        {variable.notInFile
+                          ? "Not used in this file"
+                          : defaultValue
+                          ? formatVariableModeValue(defaultValue)
+                          : "No value"}
                       </div>
                     </div>
                   </div>
@@ -472,35 +1237,717 @@ function Plugin() {
             )}
           </div>
           <VerticalSpace space="medium" />
-          {pages.length > 0 && (
+          <Text>
+            <Muted>Search in:</Muted>
+          </Text>
+          <VerticalSpace space="extraSmall" />
+          <Dropdown
+            onChange={handleScopeTypeChange}
+            options={scopeTypeOptions}
+            value={scopeType}
+          />
+          <VerticalSpace space="extraSmall" />
+          {scopeType === "selection" && (
+            <Text>
+              <Muted>
+                {selectionCount > 0
+                  ? `${selectionCount} layer${
+                      selectionCount !== 1 ? "s" : ""
+                    } selected`
+                  : "Select layers on the canvas to search in"}
+              </Muted>
+            </Text>
+          )}
+          {scopeType === "container" && (
+            <Fragment>
+              <Textbox
+                onInput={handleContainerQueryChange}
+                placeholder="Search frames and sections by name..."
+                value={containerQuery}
+              />
+              <VerticalSpace space="extraSmall" />
+              <div
+                style={{
+                  maxHeight: "140px",
+                  overflowY: "auto",
+                  border: "1px solid #e0e0e0",
+                  borderRadius: "6px",
+                  padding: "4px",
+                  backgroundColor: "#fafafa",
+                }}
+              >
+                {filteredContainers.length > 0 ? (
+                  filteredContainers.map((container) => {
+                    const isSelected = container.id === selectedContainerId;
+                    return (
+                      <div
+                        key={container.id}
+                        style={{
+                          padding: "6px 8px",
+                          borderRadius: "4px",
+                          fontSize: "11px",
+                          cursor: "pointer",
+                          backgroundColor: isSelected ? "#e3f2fd" : "transparent",
+                          color: "#333",
+                          overflow: "hidden",
+                          textOverflow: "ellipsis",
+                          whiteSpace: "nowrap",
+                        }}
+                        onClick={() => setSelectedContainerId(container.id)}
+                      >
+                        {container.type === "SECTION" ? "▦ " : "# "}
+                        {container.name}
+                        <span style={{ color: "#999" }}>
+                          {" "}
+                          ({container.pageName})
+                        </span>
+                      </div>
+                    );
+                  })
+                ) : (
+                  <div style={{ padding: "8px", textAlign: "center" }}>
+                    <Text>
+                      <Muted>
+                        {containerQuery
+                          ? `No frames or sections matching "${containerQuery}"`
+                          : "No frames or sections found"}
+                      </Muted>
+                    </Text>
+                  </div>
+                )}
+              </div>
+            </Fragment>
+          )}
+          {scopeType === "pages" && pages.length > 0 && (
             <Fragment>
+              <div style={{ display: "flex", gap: "8px", marginBottom: "4px" }}>
+                <Button
+                  onClick={() => handlePageSelectionChange(pages.map((page) => page.id))}
+                  secondary
+                  style={{ flex: 1 }}
+                >
+                  All Pages
+                </Button>
+                <Button
+                  onClick={() => handlePageSelectionChange([])}
+                  secondary
+                  style={{ flex: 1 }}
+                >
+                  No Pages
+                </Button>
+              </div>
+              <div
+                style={{
+                  maxHeight: "140px",
+                  overflowY: "auto",
+                  border: "1px solid #e0e0e0",
+                  borderRadius: "6px",
+                  padding: "4px 8px",
+                  backgroundColor: "#fafafa",
+                }}
+              >
+                {pages.map((page) => (
+                  <div key={page.id} style={{ padding: "3px 0" }}>
+                    <Checkbox
+                      onChange={(event) =>
+                        handlePageToggle(page.id, event.currentTarget.checked)
+                      }
+                      value={selectedPageIds.has(page.id)}
+                    >
+                      <Text>{page.name}</Text>
+                    </Checkbox>
+                  </div>
+                ))}
+              </div>
+              <VerticalSpace space="extraSmall" />
               <Text>
-                <Muted>Select page to search:</Muted>
+                <Muted>
+                  {selectedPageIds.size} of {pages.length} page
+                  {pages.length !== 1 ? "s" : ""} selected
+                </Muted>
               </Text>
+            </Fragment>
+          )}
+          <VerticalSpace space="small" />
+          <Checkbox
+            onChange={(event) =>
+              handleScanOptionChange(
+                "includeAliases",
+                event.currentTarget.checked
+              )
+            }
+            value={scanOptions.includeAliases === true}
+          >
+            <Text>Include variables that alias the selected ones</Text>
+          </Checkbox>
+          <VerticalSpace space="extraSmall" />
+          <Checkbox
+            onChange={(event) =>
+              handleScanOptionChange("includeHidden", event.currentTarget.checked)
+            }
+            value={scanOptions.includeHidden === true}
+          >
+            <Text>Include hidden layers</Text>
+          </Checkbox>
+          <VerticalSpace space="extraSmall" />
+          <Checkbox
+            onChange={(event) =>
+              handleScanOptionChange("includeLocked", event.currentTarget.checked)
+            }
+            value={scanOptions.includeLocked === true}
+          >
+            <Text>Include locked layers</Text>
+          </Checkbox>
+          <VerticalSpace space="extraSmall" />
+          <Checkbox
+            onChange={(event) =>
+              handleScanOptionChange(
+                "includeUnboundMatches",
+                event.currentTarget.checked
+              )
+            }
+            value={scanOptions.includeUnboundMatches === true}
+          >
+            <Text>Also find unbound values that match</Text>
+          </Checkbox>
+          {scanOptions.includeUnboundMatches && (
+            <Fragment>
               <VerticalSpace space="extraSmall" />
-              <Dropdown
-                onChange={handlePageChange}
-                options={[
-                  { value: "", text: "All pages" },
-                  ...pages.map((page) => ({
-                    value: page.id,
-                    text: page.name,
-                  })),
-                ]}
-                value={selectedPageId || ""}
-              />
-              <VerticalSpace space="small" />
+              <Columns space="extraSmall">
+                <TextboxNumeric
+                  onValueInput={setColorTolerance}
+                  minimum={0}
+                  maximum={255}
+                  suffix=" color Δ"
+                  value={colorTolerance}
+                />
+                <TextboxNumeric
+                  onValueInput={setNumberTolerance}
+                  minimum={0}
+                  suffix=" number Δ"
+                  value={numberTolerance}
+                />
+              </Columns>
+            </Fragment>
+          )}
+          {granularity !== "layer" && (
+            <Fragment>
+              <VerticalSpace space="extraSmall" />
+              <Checkbox
+                onChange={(event) =>
+                  handleScanOptionChange(
+                    "includeComponentDefinitions",
+                    event.currentTarget.checked
+                  )
+                }
+                value={scanOptions.includeComponentDefinitions === true}
+              >
+                <Text>Search inside main components and variants</Text>
+              </Checkbox>
             </Fragment>
           )}
+          <VerticalSpace space="small" />
+          <Text>
+            <Muted>Show results per:</Muted>
+          </Text>
+          <VerticalSpace space="extraSmall" />
+          <Dropdown
+            onChange={handleGranularityChange}
+            options={granularityOptions}
+            value={granularity}
+          />
+          <VerticalSpace space="small" />
+          <Checkbox
+            onChange={(event) => setDrawResultTable(event.currentTarget.checked)}
+            value={drawResultTable}
+          >
+            <Text>Draw result table on the canvas</Text>
+          </Checkbox>
+          <VerticalSpace space="small" />
           <Button
             fullWidth
             onClick={handleGetSelected}
-            disabled={selectedVariables.size === 0 || isSearching}
+            disabled={selectedVariables.size === 0 || !isScopeReady || isSearching}
           >
             {isSearching
               ? "Searching..."
               : `Find Bound Nodes (${selectedVariables.size} selected)`}
           </Button>
+          <VerticalSpace space="extraSmall" />
+          <Button
+            fullWidth
+            secondary
+            onClick={handleAuditUnused}
+            disabled={
+              !collections.some((collection) => collection.isLocal) ||
+              collections.find(
+                (collection) => collection.id === selectedCollectionId
+              )?.isLocal === false ||
+              !isScopeReady ||
+              isSearching
+            }
+          >
+            {`Audit Unused (${
+              collections.find(
+                (collection) => collection.id === selectedCollectionId
+              )?.name || "all collections"
+            })`}
+          </Button>
+          <VerticalSpace space="extraSmall" />
+          <Button
+            fullWidth
+            secondary
+            onClick={handleScanDeprecated}
+            disabled={!isScopeReady || isSearching}
+          >
+            Scan All Deprecated Usages
+          </Button>
+          <VerticalSpace space="small" />
+          <Checkbox
+            onChange={(event) =>
+              handleWatchModeChange(event.currentTarget.checked)
+            }
+            value={isWatching}
+          >
+            <Text>Watch for changes after searching</Text>
+          </Checkbox>
+          {isWatching && liveCounts && !isSearching && (
+            <Fragment>
+              <VerticalSpace space="extraSmall" />
+              <div
+                style={{
+                  fontSize: "11px",
+                  padding: "8px",
+                  backgroundColor: "#f5f5f5",
+                  borderRadius: "4px",
+                }}
+              >
+                <div style={{ fontWeight: "600", marginBottom: "4px" }}>
+                  Live results
+                  {watchEvents.length > 0 && " · canvas table out of date"}
+                </div>
+                {liveCounts.map(({ variableId, variableName, count }) => (
+                  <div key={variableId}>
+                    {variableName}: {count} result{count !== 1 ? "s" : ""}
+                  </div>
+                ))}
+                {watchEvents.slice(-5).map((event, idx) => (
+                  <div
+                    key={idx}
+                    style={{ color: event.added ? "#2e7d32" : "#d32f2f" }}
+                  >
+                    {event.added ? "+" : "−"} {event.result.instanceNode.name} (
+                    {event.result.instanceNode.pageName}) ·{" "}
+                    {event.result.variableName}
+                  </div>
+                ))}
+              </div>
+            </Fragment>
+          )}
+          {auditSummary && !isSearching && (
+            <Fragment>
+              <VerticalSpace space="extraSmall" />
+              <Text>
+                <Muted>
+                  {auditSummary.unusedCount} unused,{" "}
+                  {auditSummary.aliasOnlyCount} alias-only and{" "}
+                  {auditSummary.styleOnlyCount} style-only of{" "}
+                  {auditSummary.totalVariables} variables
+                </Muted>
+              </Text>
+            </Fragment>
+          )}
+          {searchResults && !isSearching && (
+            <Fragment>
+              <VerticalSpace space="small" />
+              <Text>
+                <Muted>
+                  {searchResults.length} result
+                  {searchResults.length !== 1 ? "s" : ""} · click a row to
+                  select and zoom to the layer
+                </Muted>
+              </Text>
+              <VerticalSpace space="extraSmall" />
+              <Columns space="extraSmall">
+                <Textbox
+                  onInput={(event) => {
+                    setResultFilter(event.currentTarget.value);
+                    setResultPosition(null);
+                  }}
+                  placeholder="Filter by layer, page or property"
+                  value={resultFilter}
+                />
+                <Dropdown
+                  onChange={(event) => {
+                    setResultSortOrder(
+                      event.currentTarget.value as ResultSortOrder
+                    );
+                    setResultPosition(null);
+                  }}
+                  options={resultSortOptions}
+                  value={resultSortOrder}
+                />
+              </Columns>
+              <VerticalSpace space="extraSmall" />
+              <Columns space="extraSmall">
+                <Button
+                  fullWidth
+                  secondary
+                  onClick={() => handleSelectResults(false)}
+                  disabled={listedResultRows.length === 0}
+                >
+                  Select on this page
+                </Button>
+                <Button
+                  fullWidth
+                  secondary
+                  onClick={() => handleSelectResults(true)}
+                  disabled={listedResultRows.length === 0}
+                >
+                  Select on all pages
+                </Button>
+              </Columns>
+              <VerticalSpace space="extraSmall" />
+              <div style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+                <Button
+                  secondary
+                  onClick={() => handleStepResult(-1)}
+                  disabled={listedResultRows.length === 0}
+                >
+                  Previous
+                </Button>
+                <div style={{ flex: 1, textAlign: "center" }}>
+                  <Text>
+                    <Muted>
+                      {resultPosition === null ? "–" : resultPosition + 1} /{" "}
+                      {listedResultRows.length}
+                    </Muted>
+                  </Text>
+                </div>
+                <Button
+                  secondary
+                  onClick={() => handleStepResult(1)}
+                  disabled={listedResultRows.length === 0}
+                >
+                  Next
+                </Button>
+              </div>
+              <VerticalSpace space="extraSmall" />
+              <div
+                style={{
+                  maxHeight: "300px",
+                  overflowY: "auto",
+                  fontSize: "11px",
+                  border: "1px solid #e0e0e0",
+                  borderRadius: "4px",
+                }}
+              >
+                {resultGroups.length === 0 && (
+                  <div style={{ padding: "8px", color: "#666" }}>
+                    No results match the filter
+                  </div>
+                )}
+                {resultGroups.map((group) => (
+                  <div key={group.variableId}>
+                    <div
+                      style={{
+                        fontWeight: "600",
+                        padding: "6px 8px",
+                        backgroundColor: "#f5f5f5",
+                      }}
+                    >
+                      {group.variableName}
+                    </div>
+                    {group.pages.map((page) => (
+                      <div key={page.pageId ?? page.pageName}>
+                        <div style={{ padding: "4px 8px", color: "#666" }}>
+                          {page.pageName} · {page.rows.length}
+                        </div>
+                        {page.rows.map((row, idx) => (
+                          <div
+                            key={idx}
+                            onClick={() =>
+                              handleFocusResult(
+                                row,
+                                resultPositions.get(row) || 0
+                              )
+                            }
+                            title={row.propertyPath}
+                            style={{
+                              padding: "4px 8px 4px 16px",
+                              cursor: "pointer",
+                              borderTop: "1px solid #f0f0f0",
+                              backgroundColor:
+                                resultPositions.get(row) === resultPosition
+                                  ? "#e3f2fd"
+                                  : "transparent",
+                            }}
+                          >
+                            <div>
+                              {row.instanceNode.name}{" "}
+                              <span style={{ color: "#999" }}>
+                                {row.instanceNode.type}
+                              </span>
+                              {row.occurrences > 1 && ` ×${row.occurrences}`}
+                              {row.hidden && " [hidden]"}
+                              {row.locked && " [locked]"}
+                              {row.inDefinition && " [definition]"}
+                              {row.unboundMatch &&
+                                ` [unbound, ${row.unboundMatch.modeName}]`}
+                              {row.formerlyBound && " [detached]"}
+                            </div>
+                            <div style={{ color: "#666" }}>
+                              {row.boundProperties.join(", ")}
+                              {row.viaStyleName &&
+                                ` via style ${row.viaStyleName}`}
+                              {row.aliasPath && ` via ${row.aliasPath}`}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </Fragment>
+          )}
+
+          {replacementSource && (
+            <Fragment>
+              <VerticalSpace space="small" />
+              <Text>
+                <Muted>
+                  {replacementSource.deprecation
+                    ? replacementSource.deprecation.fromDescription
+                      ? `${replacementSource.name} is marked [deprecated] in its description`
+                      : `${replacementSource.name} is deprecated`
+                    : `Deprecate ${replacementSource.name}`}
+                </Muted>
+              </Text>
+              <VerticalSpace space="extraSmall" />
+              <Dropdown
+                onChange={(event) =>
+                  setDeprecationReplacementId(event.currentTarget.value || null)
+                }
+                options={[
+                  { value: "", text: "No replacement" },
+                  ...replacementTargets.map((variable) => ({
+                    value: variable.id,
+                    text: `Use ${variable.name}`,
+                  })),
+                ]}
+                value={deprecationReplacementId || ""}
+              />
+              <VerticalSpace space="extraSmall" />
+              <Textbox
+                onInput={(event) => setDeprecationNote(event.currentTarget.value)}
+                placeholder="Note, e.g. why or until when"
+                value={deprecationNote}
+              />
+              <VerticalSpace space="extraSmall" />
+              <div style={{ display: "flex", gap: "8px" }}>
+                <Button
+                  secondary
+                  style={{ flex: 1 }}
+                  onClick={() => handleSaveDeprecation(false)}
+                >
+                  {replacementSource.deprecation &&
+                  !replacementSource.deprecation.fromDescription
+                    ? "Update Deprecation"
+                    : "Mark Deprecated"}
+                </Button>
+                {replacementSource.deprecation &&
+                  !replacementSource.deprecation.fromDescription && (
+                    <Button
+                      secondary
+                      onClick={() => handleSaveDeprecation(true)}
+                    >
+                      Remove
+                    </Button>
+                  )}
+              </div>
+            </Fragment>
+          )}
+
+          {replacementSource && replacementTargets.length > 0 && (
+            <Fragment>
+              <VerticalSpace space="small" />
+              <Text>
+                <Muted>Replace {replacementSource.name} with:</Muted>
+              </Text>
+              <VerticalSpace space="extraSmall" />
+              <Dropdown
+                onChange={handleReplacementTargetChange}
+                options={[
+                  { value: "", text: "Choose a variable..." },
+                  ...replacementTargets.map((variable) => ({
+                    value: variable.id,
+                    text: variable.name,
+                  })),
+                ]}
+                value={replacementTargetId || ""}
+              />
+              <VerticalSpace space="extraSmall" />
+              <div style={{ display: "flex", gap: "8px" }}>
+                <Button
+                  secondary
+                  style={{ flex: 1 }}
+                  onClick={() => handleReplaceVariable(true)}
+                  disabled={!replacementTargetId || !isScopeReady || isSearching}
+                >
+                  Preview Replacement
+                </Button>
+                <Button
+                  style={{ flex: 1 }}
+                  onClick={() => handleReplaceVariable(false)}
+                  disabled={
+                    !replacementReport?.dryRun ||
+                    replacementReport.sourceVariableName !==
+                      replacementSource.name ||
+                    replacementReport.bindingCount === 0 ||
+                    isSearching
+                  }
+                >
+                  Replace
+                </Button>
+              </div>
+              {replacementReport && !isSearching && (
+                <div
+                  style={{
+                    marginTop: "8px",
+                    padding: "8px",
+                    border: "1px solid #e0e0e0",
+                    borderRadius: "6px",
+                    backgroundColor: "#fafafa",
+                    fontSize: "11px",
+                    color: "#333",
+                  }}
+                >
+                  {replacementReport.error ? (
+                    <div style={{ color: "#d32f2f" }}>
+                      {replacementReport.error}
+                    </div>
+                  ) : replacementReport.dryRun ? (
+                    <Fragment>
+                      <div style={{ fontWeight: "600", marginBottom: "4px" }}>
+                        {replacementReport.bindingCount} binding
+                        {replacementReport.bindingCount !== 1 ? "s" : ""} on{" "}
+                        {replacementReport.nodeCount} layer
+                        {replacementReport.nodeCount !== 1 ? "s" : ""} will move
+                        to {replacementReport.targetVariableName}
+                      </div>
+                      {Object.entries(replacementReport.countsByProperty)
+                        .sort(([, a], [, b]) => b - a)
+                        .map(([property, count]) => (
+                          <div key={property}>
+                            {property}: {count}
+                          </div>
+                        ))}
+                    </Fragment>
+                  ) : (
+                    <Fragment>
+                      <div style={{ fontWeight: "600", marginBottom: "4px" }}>
+                        Rebound {replacementReport.updatedCount} of{" "}
+                        {replacementReport.bindingCount} bindings to{" "}
+                        {replacementReport.targetVariableName}
+                      </div>
+                      {replacementReport.failures.map((failure, idx) => (
+                        <div key={idx} style={{ color: "#d32f2f" }}>
+                          ✗ {failure.nodeName} · {failure.property}:{" "}
+                          {failure.reason}
+                        </div>
+                      ))}
+                    </Fragment>
+                  )}
+                  {replacementReport.skippedCount > 0 && (
+                    <div style={{ color: "#666", marginTop: "4px" }}>
+                      {replacementReport.skippedCount} usage
+                      {replacementReport.skippedCount !== 1 ? "s" : ""} through
+                      styles or aliases left unchanged
+                    </div>
+                  )}
+                </div>
+              )}
+            </Fragment>
+          )}
+
+          {replacementSource && (
+            <Fragment>
+              <VerticalSpace space="small" />
+              <div style={{ display: "flex", gap: "8px" }}>
+                <Button
+                  secondary={!isConfirmingDetach}
+                  danger={isConfirmingDetach}
+                  style={{ flex: 1 }}
+                  onClick={handleDetachVariable}
+                  disabled={!isScopeReady || isSearching}
+                >
+                  {isConfirmingDetach
+                    ? `Confirm: detach ${replacementSource.name}`
+                    : "Detach from all layers"}
+                </Button>
+                {isConfirmingDetach && (
+                  <Button
+                    secondary
+                    onClick={() => setIsConfirmingDetach(false)}
+                  >
+                    Keep
+                  </Button>
+                )}
+              </div>
+              {isConfirmingDetach && (
+                <Fragment>
+                  <VerticalSpace space="extraSmall" />
+                  <Text>
+                    <Muted>
+                      Each layer keeps the value it shows now and is tagged as
+                      formerly bound to {replacementSource.name}
+                    </Muted>
+                  </Text>
+                </Fragment>
+              )}
+              {detachReport && !isSearching && (
+                <div
+                  style={{
+                    marginTop: "8px",
+                    padding: "8px",
+                    border: "1px solid #e0e0e0",
+                    borderRadius: "6px",
+                    backgroundColor: "#fafafa",
+                    fontSize: "11px",
+                    color: "#333",
+                  }}
+                >
+                  {detachReport.error ? (
+                    <div style={{ color: "#d32f2f" }}>{detachReport.error}</div>
+                  ) : (
+                    <Fragment>
+                      <div style={{ fontWeight: "600", marginBottom: "4px" }}>
+                        Detached {detachReport.variableName} from{" "}
+                        {detachReport.updatedCount} of{" "}
+                        {detachReport.bindingCount} bindings on{" "}
+                        {detachReport.nodeCount} layer
+                        {detachReport.nodeCount !== 1 ? "s" : ""}
+                      </div>
+                      {detachReport.failures.map((failure, idx) => (
+                        <div key={idx} style={{ color: "#d32f2f" }}>
+                          ✗ {failure.nodeName} · {failure.property}:{" "}
+                          {failure.reason}
+                        </div>
+                      ))}
+                    </Fragment>
+                  )}
+                  {detachReport.skippedCount > 0 && (
+                    <div style={{ color: "#666", marginTop: "4px" }}>
+                      {detachReport.skippedCount} usage
+                      {detachReport.skippedCount !== 1 ? "s" : ""} through
+                      styles or aliases left bound
+                    </div>
+                  )}
+                </div>
+              )}
+            </Fragment>
+          )}
 
           {/* PHASE 2: Progress and Cancel UI */}
           {isSearching && (
@@ -530,17 +1977,38 @@ function Plugin() {
                 <VerticalSpace space="extraSmall" />
                 <Text>
                   <Muted>
-                    {searchProgress
-                      ? `${searchProgress.percentage}% (${searchProgress.current}/${searchProgress.total} nodes) - Found: ${searchProgress.nodesFound}`
+                    {searchProgress?.indexing
+                      ? `Updating usage index: ${searchProgress.current}/${searchProgress.total} pages`
+                      : searchProgress
+                      ? `${searchProgress.percentage}% (${searchProgress.current}/~${searchProgress.total} nodes) - Found: ${searchProgress.nodesFound}`
                       : "Initializing search..."}
                   </Muted>
                 </Text>
-                {searchProgress?.currentVariableName && 
-                 searchProgress?.currentVariableIndex && 
-                 searchProgress?.totalVariables && (
+                {searchProgress?.nodesPerSecond !== undefined &&
+                  searchProgress.nodesPerSecond > 0 && (
+                    <Text style={{ marginTop: "5px" }}>
+                      <Muted style={{ fontSize: "11px" }}>
+                        {searchProgress.nodesPerSecond} nodes/s
+                        {typeof searchProgress.secondsRemaining === "number" &&
+                          ` - about ${formatDuration(
+                            searchProgress.secondsRemaining
+                          )} left`}
+                      </Muted>
+                    </Text>
+                  )}
+                {searchProgress?.totalVariables && (
                   <Text style={{ marginTop: "5px" }}>
                     <Muted style={{ fontSize: "11px", fontStyle: "italic" }}>
-                      Searching for: {searchProgress.currentVariableName} ({searchProgress.currentVariableIndex} of {searchProgress.totalVariables})
+                      Searching for {searchProgress.totalVariables} variable
+                      {searchProgress.totalVariables !== 1 ? "s" : ""} in one
+                      pass
+                    </Muted>
+                  </Text>
+                )}
+                {searchProgress?.scopeLabel && (
+                  <Text style={{ marginTop: "5px" }}>
+                    <Muted style={{ fontSize: "11px" }}>
+                      In {searchProgress.scopeLabel}
                     </Muted>
                   </Text>
                 )}
@@ -564,6 +2032,43 @@ function Plugin() {
                       <div key={idx} style={{ marginBottom: "4px" }}>
                         ✓ {result.instanceNode.name} (
                         {result.instanceNode.pageName})
+                        {result.hidden && " [hidden]"}
+                        {result.locked && " [locked]"}
+                        {result.inDefinition && " [definition]"}
+                        {result.instanceCount !== undefined &&
+                          ` · ${result.instanceCount} instance${
+                            result.instanceCount === 1 ? "" : "s"
+                          } in file`}
+                        {result.viaStyleName &&
+                          ` via style ${result.viaStyleName}`}
+                        {result.aliasPath && ` via ${result.aliasPath}`}
+                        {result.resolvedMode && (
+                          <span style={{ color: "#666" }}>
+                            {" "}
+                            {result.resolvedMode.value.type === "COLOR" && (
+                              <span
+                                style={{
+                                  display: "inline-block",
+                                  width: "8px",
+                                  height: "8px",
+                                  marginRight: "3px",
+                                  borderRadius: "2px",
+                                  border: "1px solid rgba(0,0,0,0.1)",
+                                  backgroundColor: formatVariableModeValue(
+                                    result.resolvedMode.value
+                                  ),
+                                }}
+                              ></span>
+                            )}
+                            {formatVariableModeValue(result.resolvedMode.value)}{" "}
+                            · {result.resolvedMode.modeName}
+                            {result.resolvedMode.source === "explicit"
+                              ? " (set on layer)"
+                              : result.resolvedMode.source === "inherited"
+                              ? " (inherited)"
+                              : ""}
+                          </span>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -571,10 +2076,19 @@ function Plugin() {
                 </Fragment>
               )}
 
-              {/* Cancel button */}
-              <Button fullWidth onClick={handleCancelSearch} danger>
-                Cancel Search
-              </Button>
+              {/* Pause and cancel buttons */}
+              <Columns space="extraSmall">
+                <Button
+                  fullWidth
+                  secondary
+                  onClick={isPaused ? handleResumeSearch : handlePauseSearch}
+                >
+                  {isPaused ? "Resume Search" : "Pause Search"}
+                </Button>
+                <Button fullWidth onClick={handleCancelSearch} danger>
+                  Cancel Search
+                </Button>
+              </Columns>
 
               <VerticalSpace space="small" />
               <div
@@ -592,11 +2106,17 @@ function Plugin() {
                     border: "2px solid #e0e0e0",
                     borderTop: "2px solid #2196f3",
                     borderRadius: "50%",
-                    animation: "spin 1s linear infinite",
+                    animation: isPaused ? "none" : "spin 1s linear infinite",
                   }}
                 ></div>
                 <Text>
-                  <Muted>Searching through instances...</Muted>
+                  <Muted>
+                    {isPaused
+                      ? "Paused · edit the file, then resume where the search stopped"
+                      : granularity === "layer"
+                      ? "Searching through layers..."
+                      : "Searching through instances..."}
+                  </Muted>
                 </Text>
               </div>
               <style>
@@ -613,11 +2133,11 @@ function Plugin() {
         </div>
       )}
 
-      {!isLoading && colorVariables.length === 0 && (
+      {!isLoading && variables.length === 0 && (
         <Text>
           <Muted>
-            No color variables found. Try creating some color variables in your
-            Figma file first.
+            No variables found. Try creating some variables in your Figma file
+            first.
           </Muted>
         </Text>
       )}
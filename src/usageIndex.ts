@@ -0,0 +1,623 @@
+/**
+ * Persistent index of the layers that bind variables or use styles, stored per
+ * page in plugin data. Searches are answered from the index instead of
+ * traversing the pages; a page whose checksum no longer matches is re-indexed
+ * from the walk that computed its checksum.
+ */
+
+import { detachedVariablesKey, hasDetachedVariablesKey } from "./detachVariable";
+
+/**
+ * Plugin data key on each page holding the number of index chunks; the chunks
+ * themselves are stored under "usageIndex.0", "usageIndex.1", ...
+ */
+const usageIndexKey = "usageIndex";
+
+/**
+ * Bumped whenever the stored format changes, so older indexes are rebuilt
+ */
+const usageIndexVersion = 2;
+
+/**
+ * Plugin data entries are limited to 100 kB, so large indexes are split
+ */
+const chunkSize = 90000;
+
+/**
+ * How long a page walk runs before yielding to the UI thread, in milliseconds
+ */
+const timeSliceMs = 8;
+
+/**
+ * Style ID recorded for text layers whose ranges use different styles
+ */
+export const mixedStyleId = "mixed";
+
+/**
+ * Typography fields that can be bound per character range
+ */
+const textFields = [
+  "fontFamily",
+  "fontSize",
+  "fontStyle",
+  "fontWeight",
+  "letterSpacing",
+  "lineHeight",
+  "paragraphSpacing",
+  "paragraphIndent",
+];
+
+const styleFields = [
+  "fillStyleId",
+  "strokeStyleId",
+  "effectStyleId",
+  "gridStyleId",
+  "textStyleId",
+] as const;
+
+/**
+ * What one layer references: the variables bound on it (with the bound fields,
+ * e.g. "fills", "fontSize" or "componentProperties.Label"), its styles, and
+ * whether variables were detached from it
+ */
+export interface IndexedNode {
+  fingerprint: number;
+  variables: Record<string, string[]>;
+  styles: string[];
+  detached?: boolean;
+}
+
+/**
+ * Indexed layers of a page, by node ID
+ */
+export type IndexedNodes = Record<string, IndexedNode>;
+
+interface PageUsageIndex {
+  version: number;
+  /**
+   * Sum of the fingerprints of every indexed layer
+   */
+  checksum: number;
+  nodes: IndexedNodes;
+}
+
+/**
+ * Indexes of the pages verified this session, kept up to date from their
+ * nodechange events
+ */
+const trackedIndexes = new Map<string, PageUsageIndex>();
+
+/**
+ * The indexed layers of the tracked pages, by node ID. Layers removed along
+ * with their parent get no change of their own, so they are found by checking
+ * these after a deletion.
+ */
+const indexedLayers = new Map<string, SceneNode>();
+
+const unsavedPageIds = new Set<string>();
+let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+export interface IndexWalkCallbacks {
+  /**
+   * Called before each page is walked, and once all of them are
+   */
+  onProgress?: (pagesWalked: number, totalPages: number) => void;
+  /**
+   * Checked between time slices; pages not indexed by the time it returns true
+   * are left out
+   */
+  shouldCancel?: () => boolean;
+  /**
+   * Resolves once the search is no longer paused; called between time slices
+   */
+  waitWhilePaused?: () => Promise<void>;
+}
+
+/**
+ * Returns the indexed layers of every given page. Each page not tracked yet is
+ * walked once to compare its checksum with the stored index; pages never indexed
+ * or changed since are re-indexed from that same walk.
+ */
+export async function getUsageIndex(
+  pages: readonly PageNode[],
+  callbacks?: IndexWalkCallbacks
+): Promise<Map<string, IndexedNodes>> {
+  const indexedNodesByPage = new Map<string, IndexedNodes>();
+  const hasDetachedVariables =
+    figma.root.getPluginData(hasDetachedVariablesKey) === "true";
+
+  for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+    const page = pages[pageIndex];
+    let index = trackedIndexes.get(page.id);
+    if (!index) {
+      callbacks?.onProgress?.(pageIndex, pages.length);
+      await page.loadAsync();
+
+      // Layers edited while the page is walked are indexed again afterwards
+      const changesDuringWalk: NodeChangeEvent[] = [];
+      const recordChanges = (event: NodeChangeEvent) => {
+        changesDuringWalk.push(event);
+      };
+      page.on("nodechange", recordChanges);
+      let walk: PageWalk | null;
+      try {
+        walk = await walkPage(page, hasDetachedVariables, callbacks);
+      } finally {
+        page.off("nodechange", recordChanges);
+      }
+      if (!walk) {
+        break;
+      }
+
+      const storedIndex = readPageIndex(page);
+      if (storedIndex && storedIndex.checksum === walk.checksum) {
+        index = storedIndex;
+        walk.references.forEach(({ node }) => indexedLayers.set(node.id, node));
+      } else {
+        index = { version: usageIndexVersion, checksum: 0, nodes: {} };
+        for (const { node, payload } of walk.references) {
+          addIndexedNode(
+            index,
+            node,
+            indexNode(node, hasDetachedVariables, payload)
+          );
+        }
+        writePageIndex(page, index);
+        console.log(
+          `🗂️ Re-indexed ${Object.keys(index.nodes).length} layers on page "${page.name}"`
+        );
+      }
+      trackPage(page, index);
+      changesDuringWalk.forEach(handleNodeChange);
+    }
+    indexedNodesByPage.set(page.id, index.nodes);
+  }
+
+  callbacks?.onProgress?.(indexedNodesByPage.size, pages.length);
+  return indexedNodesByPage;
+}
+
+/**
+ * Returns the pages the given layers are on
+ */
+export function getPagesOfNodes(nodes: readonly SceneNode[]): PageNode[] {
+  const pages = new Map<string, PageNode>();
+  nodes.forEach((node) => {
+    const page = getNodePage(node);
+    if (page) {
+      pages.set(page.id, page);
+    }
+  });
+  return Array.from(pages.values());
+}
+
+/**
+ * Writes the index changes not saved yet, e.g. when the plugin closes
+ */
+export function saveUsageIndex() {
+  if (saveTimeout !== null) {
+    clearTimeout(saveTimeout);
+    saveTimeout = null;
+  }
+
+  unsavedPageIds.forEach((pageId) => {
+    const page = figma.root.children.find((child) => child.id === pageId);
+    const index = trackedIndexes.get(pageId);
+    if (page && index) {
+      writePageIndex(page, index);
+    }
+  });
+  unsavedPageIds.clear();
+}
+
+/**
+ * Starts following the changes of a page. Page events are used rather than
+ * documentchange, which would require loading every page.
+ */
+function trackPage(page: PageNode, index: PageUsageIndex) {
+  if (!trackedIndexes.has(page.id)) {
+    page.on("nodechange", handleNodeChange);
+  }
+  trackedIndexes.set(page.id, index);
+}
+
+/**
+ * Re-indexes the layers that were created, edited or removed
+ */
+function handleNodeChange(event: NodeChangeEvent) {
+  const hasDetachedVariables =
+    figma.root.getPluginData(hasDetachedVariablesKey) === "true";
+
+  let layersRemoved = false;
+
+  for (const change of event.nodeChanges) {
+    // Saving the index itself changes plugin data; it only matters to the index
+    // through the detached bindings kept there
+    if (
+      !hasDetachedVariables &&
+      change.type === "PROPERTY_CHANGE" &&
+      change.properties.every((property) => property === "pluginData")
+    ) {
+      continue;
+    }
+
+    const node = change.node;
+    if (change.type === "DELETE" || node.removed) {
+      removeFromTrackedIndexes(change.id);
+      layersRemoved = true;
+      continue;
+    }
+
+    // Layers created, pasted or moved come with their whole subtree
+    const nodes =
+      (change.type === "CREATE" ||
+        (change.type === "PROPERTY_CHANGE" &&
+          change.properties.includes("parent"))) &&
+      "findAll" in node
+        ? [node, ...node.findAll()]
+        : [node];
+    nodes.forEach((changedNode) =>
+      reindexNode(changedNode, hasDetachedVariables)
+    );
+  }
+
+  if (layersRemoved) {
+    indexedLayers.forEach((node, nodeId) => {
+      if (node.removed) {
+        removeFromTrackedIndexes(nodeId);
+      }
+    });
+  }
+
+  // Saving is batched, as edits like dragging fire many changes in a row
+  if (unsavedPageIds.size > 0 && saveTimeout === null) {
+    saveTimeout = setTimeout(saveUsageIndex, 2000);
+  }
+}
+
+/**
+ * Indexes a layer again on its page, and drops it from the index of the page
+ * it was moved from
+ */
+function reindexNode(node: SceneNode, hasDetachedVariables: boolean) {
+  const page = getNodePage(node);
+  const index = page && trackedIndexes.get(page.id);
+  const payload = index ? getReferencePayload(node, hasDetachedVariables) : "";
+  const indexedNode = payload
+    ? indexNode(node, hasDetachedVariables, payload)
+    : null;
+
+  trackedIndexes.forEach((otherIndex, pageId) => {
+    if (otherIndex !== index && removeIndexedNode(otherIndex, node.id)) {
+      unsavedPageIds.add(pageId);
+    }
+  });
+
+  // Changes on pages that are not tracked show up in their checksum instead,
+  // and layers whose references did not change leave the index as it is
+  if (
+    !page ||
+    !index ||
+    index.nodes[node.id]?.fingerprint === indexedNode?.fingerprint
+  ) {
+    return;
+  }
+
+  removeIndexedNode(index, node.id);
+  if (indexedNode) {
+    addIndexedNode(index, node, indexedNode);
+  }
+  unsavedPageIds.add(page.id);
+}
+
+function removeFromTrackedIndexes(nodeId: string) {
+  trackedIndexes.forEach((index, pageId) => {
+    if (removeIndexedNode(index, nodeId)) {
+      unsavedPageIds.add(pageId);
+    }
+  });
+}
+
+/**
+ * Lists what a layer references
+ * @param payload - The reference payload of the layer, which must not be empty
+ */
+function indexNode(
+  node: SceneNode,
+  hasDetachedVariables: boolean,
+  payload: string
+): IndexedNode {
+  const variables: Record<string, string[]> = {};
+  const addBinding = (binding: unknown, field: string) => {
+    if (
+      binding &&
+      typeof binding === "object" &&
+      (binding as VariableAlias).type === "VARIABLE_ALIAS"
+    ) {
+      const variableId = (binding as VariableAlias).id;
+      variables[variableId] = variables[variableId] || [];
+      if (!variables[variableId].includes(field)) {
+        variables[variableId].push(field);
+      }
+    }
+  };
+
+  if ("boundVariables" in node && node.boundVariables) {
+    for (const [field, binding] of Object.entries(node.boundVariables)) {
+      if (Array.isArray(binding)) {
+        binding.forEach((alias) => addBinding(alias, field));
+      } else if (field === "componentProperties" && binding) {
+        for (const [propertyName, alias] of Object.entries(binding)) {
+          addBinding(alias, `componentProperties.${propertyName}`);
+        }
+      } else {
+        addBinding(binding, field);
+      }
+    }
+  }
+  getNestedBindings(node).forEach(([field, alias]) => addBinding(alias, field));
+
+  const styles: string[] = [];
+  getStyleIds(node).forEach((styleId) => {
+    if (!styles.includes(styleId)) {
+      styles.push(styleId);
+    }
+  });
+
+  return {
+    fingerprint: hashString(`${node.id}|${payload}`),
+    variables,
+    styles,
+    detached:
+      (hasDetachedVariables && node.getPluginData(detachedVariablesKey) !== "") ||
+      undefined,
+  };
+}
+
+/**
+ * The layers of a page that reference something, and the sum of their fingerprints
+ */
+interface PageWalk {
+  checksum: number;
+  references: Array<{ node: SceneNode; payload: string }>;
+}
+
+/**
+ * Walks a page in time slices, reading only the raw references of each layer,
+ * which is much lighter than a search
+ * @returns The walk, or null when it was cancelled
+ */
+async function walkPage(
+  page: PageNode,
+  hasDetachedVariables: boolean,
+  callbacks?: IndexWalkCallbacks
+): Promise<PageWalk | null> {
+  const walk: PageWalk = { checksum: 0, references: [] };
+  const nodeStack: SceneNode[] = [...page.children];
+  let sliceStart = Date.now();
+
+  while (nodeStack.length > 0) {
+    if (Date.now() - sliceStart >= timeSliceMs) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await callbacks?.waitWhilePaused?.();
+      if (callbacks?.shouldCancel?.()) {
+        return null;
+      }
+      sliceStart = Date.now();
+    }
+
+    const node = nodeStack.pop() as SceneNode;
+    if (node.removed) {
+      continue;
+    }
+    const payload = getReferencePayload(node, hasDetachedVariables);
+    if (payload) {
+      walk.checksum = (walk.checksum + hashString(`${node.id}|${payload}`)) >>> 0;
+      walk.references.push({ node, payload });
+    }
+    if ("children" in node) {
+      nodeStack.push(...node.children);
+    }
+  }
+
+  return walk;
+}
+
+/**
+ * Serializes the bindings, style IDs and detached bindings of a layer, or
+ * returns an empty string when it has none
+ */
+function getReferencePayload(
+  node: SceneNode,
+  hasDetachedVariables: boolean
+): string {
+  const parts: string[] = [];
+
+  if (
+    "boundVariables" in node &&
+    node.boundVariables &&
+    Object.keys(node.boundVariables).length > 0
+  ) {
+    parts.push(JSON.stringify(node.boundVariables));
+  }
+
+  const nestedBindings = getNestedBindings(node);
+  if (nestedBindings.length > 0) {
+    parts.push(JSON.stringify(nestedBindings));
+  }
+
+  const styleIds = getStyleIds(node);
+  if (styleIds.length > 0) {
+    parts.push(styleIds.join(","));
+  }
+
+  if (hasDetachedVariables) {
+    const detachedData = node.getPluginData(detachedVariablesKey);
+    if (detachedData) {
+      parts.push(detachedData);
+    }
+  }
+
+  return parts.join("|");
+}
+
+/**
+ * Returns the bindings a search finds that node.boundVariables does not list:
+ * gradient stop colors, and typography and fills bound per character range
+ * @returns Pairs of the bound field and the variable alias
+ */
+function getNestedBindings(node: SceneNode): Array<[string, VariableAlias]> {
+  const bindings: Array<[string, VariableAlias]> = [];
+  const addPaints = (paints: readonly Paint[], field: string) => {
+    paints.forEach((paint) => {
+      if (paint.type === "SOLID") {
+        if (paint.boundVariables?.color) {
+          bindings.push([field, paint.boundVariables.color]);
+        }
+      } else if ("gradientStops" in paint) {
+        paint.gradientStops.forEach((stop) => {
+          if (stop.boundVariables?.color) {
+            bindings.push([field, stop.boundVariables.color]);
+          }
+        });
+      }
+    });
+  };
+
+  for (const field of ["fills", "strokes"] as const) {
+    if (!(field in node)) {
+      continue;
+    }
+    const paints = (node as unknown as Record<string, unknown>)[field];
+    // Solid colors are listed in node.boundVariables already
+    if (Array.isArray(paints)) {
+      addPaints(
+        paints.filter((paint: Paint) => paint.type !== "SOLID"),
+        field
+      );
+    }
+  }
+
+  if (node.type === "TEXT") {
+    const boundVariables = node.boundVariables || {};
+    if (textFields.some((field) => field in boundVariables)) {
+      node.getStyledTextSegments(["boundVariables"]).forEach((segment) => {
+        for (const [field, alias] of Object.entries(segment.boundVariables || {})) {
+          bindings.push([field, alias as VariableAlias]);
+        }
+      });
+    }
+    if (node.fills === figma.mixed) {
+      node.getStyledTextSegments(["fills"]).forEach((segment) => {
+        addPaints(segment.fills, "fills");
+      });
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Returns the style IDs a layer uses, with mixedStyleId for text ranges using
+ * different styles
+ */
+function getStyleIds(node: SceneNode): string[] {
+  const styleIds: string[] = [];
+  for (const styleField of styleFields) {
+    if (!(styleField in node)) {
+      continue;
+    }
+    const styleId = (node as unknown as Record<string, unknown>)[styleField];
+    if (styleId === figma.mixed) {
+      styleIds.push(mixedStyleId);
+    } else if (typeof styleId === "string" && styleId !== "") {
+      styleIds.push(styleId);
+    }
+  }
+  return styleIds;
+}
+
+function addIndexedNode(
+  index: PageUsageIndex,
+  node: SceneNode,
+  indexedNode: IndexedNode
+) {
+  index.nodes[node.id] = indexedNode;
+  index.checksum = (index.checksum + indexedNode.fingerprint) >>> 0;
+  indexedLayers.set(node.id, node);
+}
+
+/**
+ * Drops a layer from an index
+ * @returns Whether the layer was indexed
+ */
+function removeIndexedNode(index: PageUsageIndex, nodeId: string): boolean {
+  const indexedNode = index.nodes[nodeId];
+  if (!indexedNode) {
+    return false;
+  }
+  delete index.nodes[nodeId];
+  index.checksum = (index.checksum - indexedNode.fingerprint) >>> 0;
+  indexedLayers.delete(nodeId);
+  return true;
+}
+
+function readPageIndex(page: PageNode): PageUsageIndex | null {
+  const chunkCount = Number(page.getPluginData(usageIndexKey)) || 0;
+  if (chunkCount === 0) {
+    return null;
+  }
+
+  let data = "";
+  for (let chunk = 0; chunk < chunkCount; chunk++) {
+    data += page.getPluginData(`${usageIndexKey}.${chunk}`);
+  }
+
+  try {
+    const index = JSON.parse(data);
+    return index && index.version === usageIndexVersion && index.nodes
+      ? index
+      : null;
+  } catch (error) {
+    console.warn(`Ignoring invalid usage index of page "${page.name}":`, error);
+    return null;
+  }
+}
+
+function writePageIndex(page: PageNode, index: PageUsageIndex) {
+  const data = JSON.stringify(index);
+  const previousChunkCount = Number(page.getPluginData(usageIndexKey)) || 0;
+  const chunkCount = Math.ceil(data.length / chunkSize);
+
+  for (let chunk = 0; chunk < chunkCount; chunk++) {
+    page.setPluginData(
+      `${usageIndexKey}.${chunk}`,
+      data.slice(chunk * chunkSize, (chunk + 1) * chunkSize)
+    );
+  }
+  // Clear the chunks left over from a larger index
+  for (let chunk = chunkCount; chunk < previousChunkCount; chunk++) {
+    page.setPluginData(`${usageIndexKey}.${chunk}`, "");
+  }
+  page.setPluginData(usageIndexKey, String(chunkCount));
+}
+
+function getNodePage(node: BaseNode): PageNode | null {
+  let currentNode: BaseNode | null = node;
+  while (currentNode && currentNode.type !== "PAGE") {
+    currentNode = currentNode.parent;
+  }
+  return currentNode;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,139 @@
+/**
+ * Shared cache over the async variable lookups. Value resolution and alias
+ * chains run synchronously, so they read variables and collections from here
+ * once loadVariables has fetched them.
+ */
+
+const variables = new Map<string, Variable | null>();
+const collections = new Map<string, VariableCollection | null>();
+
+/**
+ * Forgets every cached lookup, so renamed, edited or deleted variables are
+ * fetched again
+ */
+export function clearVariableCache() {
+  variables.clear();
+  collections.clear();
+}
+
+/**
+ * Returns a variable by ID, fetching it once
+ */
+export async function getVariable(variableId: string): Promise<Variable | null> {
+  let variable = variables.get(variableId);
+  if (variable === undefined) {
+    try {
+      variable = await figma.variables.getVariableByIdAsync(variableId);
+    } catch (error) {
+      console.warn(`Could not fetch variable ${variableId}:`, error);
+      variable = null;
+    }
+    variables.set(variableId, variable);
+  }
+  return variable;
+}
+
+/**
+ * Returns a variable collection by ID, fetching it once
+ */
+export async function getCollection(
+  collectionId: string
+): Promise<VariableCollection | null> {
+  let collection = collections.get(collectionId);
+  if (collection === undefined) {
+    try {
+      collection =
+        await figma.variables.getVariableCollectionByIdAsync(collectionId);
+    } catch (error) {
+      console.warn(`Could not fetch collection ${collectionId}:`, error);
+      collection = null;
+    }
+    collections.set(collectionId, collection);
+  }
+  return collection;
+}
+
+/**
+ * Returns a variable that was already loaded, or null
+ */
+export function getCachedVariable(variableId: string): Variable | null {
+  return variables.get(variableId) || null;
+}
+
+/**
+ * Returns a collection that was already loaded, or null
+ */
+export function getCachedCollection(
+  collectionId: string
+): VariableCollection | null {
+  return collections.get(collectionId) || null;
+}
+
+/**
+ * Whether a variable was looked up already, found or not
+ */
+export function isVariableLoaded(variableId: string): boolean {
+  return variables.has(variableId);
+}
+
+/**
+ * Loads variables with their collections and, in every mode, the variables
+ * they alias, so resolving their values needs no further lookups
+ */
+export async function loadVariables(variableIds: Iterable<string>) {
+  const visited = new Set<string>();
+  let pendingIds = Array.from(new Set(variableIds));
+
+  // Each round loads the variables the previous round aliases
+  while (pendingIds.length > 0) {
+    pendingIds.forEach((variableId) => visited.add(variableId));
+    const loaded = await Promise.all(pendingIds.map(getVariable));
+    const nextIds = new Set<string>();
+
+    await Promise.all(
+      loaded.map(async (variable) => {
+        if (!variable) {
+          return;
+        }
+        await getCollection(variable.variableCollectionId);
+        for (const value of Object.values(variable.valuesByMode)) {
+          if (
+            typeof value === "object" &&
+            value !== null &&
+            "type" in value &&
+            value.type === "VARIABLE_ALIAS" &&
+            !visited.has(value.id)
+          ) {
+            nextIds.add(value.id);
+          }
+        }
+      })
+    );
+
+    pendingIds = Array.from(nextIds);
+  }
+}
+
+/**
+ * Returns the local variables, cached and loaded with everything they alias
+ */
+export async function getLocalVariables(): Promise<Variable[]> {
+  const localVariables = await figma.variables.getLocalVariablesAsync();
+  localVariables.forEach((variable) => {
+    variables.set(variable.id, variable);
+  });
+  await loadVariables(localVariables.map((variable) => variable.id));
+  return localVariables;
+}
+
+/**
+ * Returns the local variable collections, cached
+ */
+export async function getLocalCollections(): Promise<VariableCollection[]> {
+  const localCollections =
+    await figma.variables.getLocalVariableCollectionsAsync();
+  localCollections.forEach((collection) => {
+    collections.set(collection.id, collection);
+  });
+  return localCollections;
+}
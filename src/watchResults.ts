@@ -0,0 +1,386 @@
+/**
+ * Watch mode: keeps the results of the last search up to date while the
+ * document changes, re-checking only the layers that changed
+ */
+
+import {
+  BoundNodeInfo,
+  createSearchLookups,
+  findBindingsOnLayers,
+  SearchLookups,
+  toResultRow,
+} from "./findBoundVariables";
+import {
+  ResultGranularity,
+  ScanOptions,
+  SearchScope,
+  SearchResultRow,
+  WatchUpdate,
+} from "./types";
+import { getPagesOfNodes } from "./usageIndex";
+
+/**
+ * The search whose results are watched
+ */
+export interface WatchedSearch {
+  variables: Variable[];
+  scope: SearchScope;
+  rootNodes: readonly SceneNode[];
+  granularity: ResultGranularity;
+  scanOptions: ScanOptions;
+  boundNodesByVariable: Map<string, BoundNodeInfo[]>;
+}
+
+/**
+ * A result row and the bound layers that still put it in the results
+ */
+interface WatchedRow {
+  result: SearchResultRow;
+  layerIds: Set<string>;
+}
+
+let watchedSearch: WatchedSearch | null = null;
+// Matching styles and instance counts, looked up once for every re-check
+let searchLookups: SearchLookups = createSearchLookups();
+// Rows by variable ID and row key
+let watchedRows = new Map<string, WatchedRow>();
+// Row keys each bound layer contributes to
+let rowKeysByLayer = new Map<string, Set<string>>();
+// Layers the search covers: whole pages, or the subtrees of the searched roots
+let scopePageIds: ReadonlySet<string> | null = null;
+let scopeRootIds: ReadonlySet<string> = new Set();
+// Layers that are not re-checked, e.g. the result table drawn on the canvas
+let ignoredRootIds: ReadonlySet<string> = new Set();
+
+// Pages whose nodechange events are followed
+let watchedPages: PageNode[] = [];
+
+let onUpdate: ((update: WatchUpdate) => void) | null = null;
+let pendingLayerIds = new Set<string>();
+let pendingDeletion = false;
+let isProcessing = false;
+
+/**
+ * Remembers the results of a search as the baseline that changes are compared to
+ * @param search - The search and its results
+ * @param ignoredNodes - Layers whose changes are ignored, like the result table
+ */
+export async function setWatchedSearch(
+  search: WatchedSearch,
+  ignoredNodes: readonly SceneNode[] = []
+) {
+  watchedSearch = search;
+  searchLookups = createSearchLookups();
+  watchedRows = new Map();
+  rowKeysByLayer = new Map();
+  pendingLayerIds = new Set();
+  pendingDeletion = false;
+
+  scopePageIds =
+    search.scope.type === "pages" ? new Set(search.scope.pageIds) : null;
+  scopeRootIds = new Set(search.rootNodes.map((node) => node.id));
+  ignoredRootIds = new Set(ignoredNodes.map((node) => node.id));
+
+  search.variables.forEach((variable) => {
+    (search.boundNodesByVariable.get(variable.id) || []).forEach((info) => {
+      if (info.unboundMatch || info.formerlyBound) {
+        return;
+      }
+      const rowKey = getRowKey(variable.id, info);
+      watchedRows.set(rowKey, {
+        result: toResultRow(variable, info),
+        layerIds: new Set(info.layerIds || [info.node.id]),
+      });
+      (info.layerIds || [info.node.id]).forEach((layerId) =>
+        addRowKey(layerId, rowKey)
+      );
+    });
+  });
+
+  if (onUpdate) {
+    await followScopePages();
+    onUpdate({ added: [], removed: [], counts: countRows() });
+  }
+}
+
+/**
+ * Forgets the watched search, e.g. after a cancelled one
+ */
+export function clearWatchedSearch() {
+  unfollowScopePages();
+  watchedSearch = null;
+  searchLookups = createSearchLookups();
+  watchedRows = new Map();
+  rowKeysByLayer = new Map();
+  pendingLayerIds = new Set();
+}
+
+/**
+ * Starts following the changes on the pages the watched search covers; updates
+ * are passed to the callback in batches
+ */
+export async function startWatching(callback: (update: WatchUpdate) => void) {
+  if (onUpdate) {
+    onUpdate = callback;
+    return;
+  }
+  onUpdate = callback;
+  console.log("👀 Watching the searched pages for changes");
+
+  if (watchedSearch) {
+    await followScopePages();
+    onUpdate?.({ added: [], removed: [], counts: countRows() });
+  }
+}
+
+export function stopWatching() {
+  if (!onUpdate) {
+    return;
+  }
+  unfollowScopePages();
+  onUpdate = null;
+  pendingLayerIds = new Set();
+  console.log("👀 Stopped watching the document");
+}
+
+/**
+ * Follows the nodechange events of the pages in the scope of the watched
+ * search, so watch mode never loads pages the search did not cover
+ */
+async function followScopePages() {
+  const search = watchedSearch;
+  if (!search) {
+    return;
+  }
+  const pages =
+    search.scope.type === "pages"
+      ? figma.root.children.filter((page) => scopePageIds?.has(page.id))
+      : getPagesOfNodes(search.rootNodes);
+  for (const page of pages) {
+    await page.loadAsync();
+  }
+
+  // Another search or the end of watch mode may come in while pages load
+  if (search !== watchedSearch || !onUpdate) {
+    return;
+  }
+  unfollowScopePages();
+  watchedPages = pages;
+  watchedPages.forEach((page) => page.on("nodechange", handleNodeChange));
+}
+
+function unfollowScopePages() {
+  watchedPages.forEach((page) => page.off("nodechange", handleNodeChange));
+  watchedPages = [];
+}
+
+function handleNodeChange(event: NodeChangeEvent) {
+  if (!watchedSearch) {
+    return;
+  }
+
+  for (const change of event.nodeChanges) {
+    pendingLayerIds.add(change.id);
+
+    if (change.type === "DELETE" || change.node.removed) {
+      // Layers removed with their parent get no change of their own
+      pendingDeletion = true;
+      continue;
+    }
+    // Layers created or moved with their parent are re-checked with it
+    if (
+      (change.type === "CREATE" ||
+        (change.type === "PROPERTY_CHANGE" &&
+          change.properties.includes("parent"))) &&
+      "findAll" in change.node
+    ) {
+      change.node.findAll().forEach((node) => pendingLayerIds.add(node.id));
+    }
+  }
+
+  if (!isProcessing && pendingLayerIds.size > 0) {
+    processPendingChanges();
+  }
+}
+
+/**
+ * Re-checks the changed layers until no change is pending. Runs one batch at a
+ * time, as changes keep coming in while layers are checked.
+ */
+async function processPendingChanges() {
+  isProcessing = true;
+  try {
+    while (watchedSearch && onUpdate && pendingLayerIds.size > 0) {
+      const layerIds = pendingLayerIds;
+      pendingLayerIds = new Set();
+
+      if (pendingDeletion) {
+        pendingDeletion = false;
+        rowKeysByLayer.forEach((_, layerId) => layerIds.add(layerId));
+      }
+
+      const update = await recheckLayers(watchedSearch, layerIds);
+      if (update.added.length > 0 || update.removed.length > 0) {
+        console.log(
+          `👀 ${update.added.length} result(s) added, ${update.removed.length} removed`
+        );
+        onUpdate(update);
+      }
+    }
+  } catch (error) {
+    console.error("❌ Error updating watched results:", error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Checks the given layers again and updates the rows they contribute to
+ */
+async function recheckLayers(
+  search: WatchedSearch,
+  layerIds: ReadonlySet<string>
+): Promise<WatchUpdate> {
+  const layers: SceneNode[] = [];
+  for (const layerId of Array.from(layerIds)) {
+    const node = await figma.getNodeByIdAsync(layerId);
+    if (
+      node &&
+      !node.removed &&
+      node.type !== "PAGE" &&
+      node.type !== "DOCUMENT" &&
+      isInScope(node) &&
+      !isIgnored(node)
+    ) {
+      layers.push(node);
+    }
+  }
+
+  // Raw values are not followed, only bindings
+  const found =
+    layers.length > 0
+      ? await findBindingsOnLayers(
+          search.variables,
+          search.granularity,
+          layers,
+          { ...search.scanOptions, includeUnboundMatches: false },
+          searchLookups
+        )
+      : new Map<string, BoundNodeInfo[]>();
+
+  // Rows found now, and the row keys of each layer
+  const foundRows = new Map<string, SearchResultRow>();
+  const foundRowKeysByLayer = new Map<string, Set<string>>();
+  search.variables.forEach((variable) => {
+    (found.get(variable.id) || []).forEach((info) => {
+      if (info.formerlyBound) {
+        return;
+      }
+      const rowKey = getRowKey(variable.id, info);
+      foundRows.set(rowKey, toResultRow(variable, info));
+      (info.layerIds || [info.node.id]).forEach((layerId) => {
+        const rowKeys = foundRowKeysByLayer.get(layerId) || new Set<string>();
+        rowKeys.add(rowKey);
+        foundRowKeysByLayer.set(layerId, rowKeys);
+      });
+    });
+  });
+
+  const update: WatchUpdate = { added: [], removed: [], counts: [] };
+
+  layerIds.forEach((layerId) => {
+    const previousRowKeys = rowKeysByLayer.get(layerId) || new Set<string>();
+    const rowKeys = foundRowKeysByLayer.get(layerId) || new Set<string>();
+
+    previousRowKeys.forEach((rowKey) => {
+      const row = watchedRows.get(rowKey);
+      if (rowKeys.has(rowKey) || !row) {
+        return;
+      }
+      row.layerIds.delete(layerId);
+      // A row stays as long as another of its layers is still bound
+      if (row.layerIds.size === 0) {
+        watchedRows.delete(rowKey);
+        update.removed.push(row.result);
+      }
+    });
+
+    rowKeys.forEach((rowKey) => {
+      let row = watchedRows.get(rowKey);
+      const result = foundRows.get(rowKey);
+      if (!row && result) {
+        row = { result, layerIds: new Set() };
+        watchedRows.set(rowKey, row);
+        update.added.push(result);
+      }
+      row?.layerIds.add(layerId);
+    });
+
+    if (rowKeys.size > 0) {
+      rowKeysByLayer.set(layerId, rowKeys);
+    } else {
+      rowKeysByLayer.delete(layerId);
+    }
+  });
+
+  update.counts = countRows();
+  return update;
+}
+
+/**
+ * Whether a layer is in the part of the document the search covered
+ */
+function isInScope(node: SceneNode): boolean {
+  let currentNode: BaseNode | null = node;
+  while (currentNode) {
+    if (currentNode.type === "PAGE") {
+      return scopePageIds !== null && scopePageIds.has(currentNode.id);
+    }
+    if (scopeRootIds.has(currentNode.id)) {
+      return true;
+    }
+    currentNode = currentNode.parent;
+  }
+  return false;
+}
+
+function isIgnored(node: SceneNode): boolean {
+  let currentNode: BaseNode | null = node;
+  while (currentNode && currentNode.type !== "PAGE") {
+    if (ignoredRootIds.has(currentNode.id)) {
+      return true;
+    }
+    currentNode = currentNode.parent;
+  }
+  return false;
+}
+
+/**
+ * Counts the current rows of every watched variable
+ */
+function countRows(): WatchUpdate["counts"] {
+  const counts = new Map<string, number>();
+  watchedRows.forEach(({ result }) => {
+    counts.set(result.variableId, (counts.get(result.variableId) || 0) + 1);
+  });
+  return (watchedSearch?.variables || []).map((variable) => ({
+    variableId: variable.id,
+    variableName: variable.name,
+    count: counts.get(variable.id) || 0,
+  }));
+}
+
+function addRowKey(layerId: string, rowKey: string) {
+  const rowKeys = rowKeysByLayer.get(layerId) || new Set<string>();
+  rowKeys.add(rowKey);
+  rowKeysByLayer.set(layerId, rowKeys);
+}
+
+/**
+ * Keeps direct, via-style and via-alias rows of the same node apart
+ */
+function getRowKey(variableId: string, info: BoundNodeInfo): string {
+  return [variableId, info.node.id, info.viaStyle?.id || "", info.aliasPath || ""].join(
+    "|"
+  );
+}